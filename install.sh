@@ -83,6 +83,20 @@ EOF
 systemctl daemon-reload
 print_status "Systemd service created"
 
+if [ -n "${DENOO_SETUP_ANSWERS}" ] || [ -n "${DENOO_WHATSAPP_PHONE}${DENOO_EMAIL_TO}${DENOO_NTFY_TOPIC}${DENOO_GOTIFY_URL}" ]; then
+    echo ""
+    echo "Running unattended setup..."
+    SETUP_ARGS=(--non-interactive --keep-session)
+    if [ -n "${DENOO_SETUP_ANSWERS}" ]; then
+        SETUP_ARGS+=(--from "${DENOO_SETUP_ANSWERS}")
+    fi
+    if sudo -E -u "${REAL_USER}" HOME="${REAL_HOME}" "${INSTALL_DIR}/${BINARY_NAME}" setup "${SETUP_ARGS[@]}"; then
+        print_status "Configuration written for ${REAL_USER}"
+    else
+        print_warn "Unattended setup failed, run '${BINARY_NAME} setup' manually"
+    fi
+fi
+
 echo ""
 echo "╔════════════════════════════════════════╗"
 echo "║         Installation Complete!         ║"
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setConfigDir } from "../config/paths.ts";
+import {
+  acknowledge,
+  collectFollowUps,
+  forgetAck,
+  getAckStateFile,
+  listUnacknowledged,
+  registerAck,
+} from "./ack.ts";
+
+const T0 = new Date(2026, 9, 19, 12, 0, 0).getTime();
+const MINUTE = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE;
+const RESEND_MS = 15 * MINUTE;
+
+const storedAlerts = () => JSON.parse(readFileSync(getAckStateFile(), "utf-8")).alerts;
+
+beforeEach(() => {
+  setConfigDir(mkdtempSync(join(tmpdir(), "denoo-ack-")));
+});
+
+describe("acknowledge", () => {
+  test("acknowledges one alert by id and records who did it", () => {
+    const first = registerAck("threshold", "critical", "CPU usage: 97%", T0);
+    const second = registerAck("brute-force", "critical", "5 failed logins", T0);
+    expect(second.id).toBe(first.id + 1);
+
+    expect(acknowledge(first.id, "+15550100", T0 + MINUTE)).toMatchObject([
+      { id: first.id, acknowledgedAt: T0 + MINUTE, acknowledgedBy: "+15550100" },
+    ]);
+    expect(listUnacknowledged().map((alert) => alert.id)).toEqual([second.id]);
+    expect(acknowledge(first.id, "+15550100", T0 + 2 * MINUTE)).toEqual([]);
+  });
+
+  test("acknowledges everything with all", () => {
+    registerAck("threshold", "critical", "a", T0);
+    registerAck("anomaly", "critical", "b", T0);
+    expect(acknowledge("all", "cli", T0)).toHaveLength(2);
+    expect(listUnacknowledged()).toEqual([]);
+  });
+
+  test("forgets an alert that was never delivered", () => {
+    const pending = registerAck("threshold", "critical", "a", T0);
+    forgetAck(pending.id);
+    expect(listUnacknowledged()).toEqual([]);
+  });
+});
+
+describe("collectFollowUps", () => {
+  test("resends until maxResends and then escalates once", () => {
+    const pending = registerAck("threshold", "critical", "CPU usage: 97%", T0);
+
+    expect(collectFollowUps(RESEND_MS, 2, undefined, T0 + 10 * MINUTE)).toEqual({ resend: [], escalate: [] });
+    expect(collectFollowUps(RESEND_MS, 2, undefined, T0 + 15 * MINUTE).resend).toMatchObject([
+      { id: pending.id, resends: 1 },
+    ]);
+    expect(collectFollowUps(RESEND_MS, 2, undefined, T0 + 20 * MINUTE).resend).toHaveLength(0);
+    expect(collectFollowUps(RESEND_MS, 2, undefined, T0 + 30 * MINUTE).resend).toMatchObject([{ resends: 2 }]);
+
+    const { resend, escalate } = collectFollowUps(RESEND_MS, 2, undefined, T0 + 45 * MINUTE);
+    expect(resend).toHaveLength(0);
+    expect(escalate).toMatchObject([{ id: pending.id, escalatedAt: T0 + 45 * MINUTE }]);
+    expect(collectFollowUps(RESEND_MS, 2, undefined, T0 + 60 * MINUTE)).toEqual({ resend: [], escalate: [] });
+  });
+
+  test("skips held and acknowledged alerts", () => {
+    const held = registerAck("threshold", "critical", "held", T0);
+    const acked = registerAck("threshold", "critical", "acked", T0);
+    acknowledge(acked.id, "cli", T0 + MINUTE);
+
+    const isHeld = (alert: { id: number }) => alert.id === held.id;
+    expect(collectFollowUps(RESEND_MS, 2, isHeld, T0 + 20 * MINUTE)).toEqual({ resend: [], escalate: [] });
+    expect(collectFollowUps(RESEND_MS, 2, undefined, T0 + 20 * MINUTE).resend.map((alert) => alert.id)).toEqual([
+      held.id,
+    ]);
+  });
+
+  test("drops settled alerts after a day", () => {
+    const escalated = registerAck("threshold", "critical", "escalated", T0);
+    const acked = registerAck("threshold", "critical", "acked", T0);
+    acknowledge(acked.id, "cli", T0 + 10 * MINUTE);
+    collectFollowUps(RESEND_MS, 0, undefined, T0 + 15 * MINUTE);
+
+    collectFollowUps(RESEND_MS, 0, undefined, T0 + 10 * MINUTE + DAY_MS);
+    expect(Object.keys(storedAlerts())).toEqual([String(escalated.id)]);
+    collectFollowUps(RESEND_MS, 0, undefined, T0 + 15 * MINUTE + DAY_MS);
+    expect(storedAlerts()).toEqual({});
+  });
+});
@@ -0,0 +1,144 @@
+import { existsSync, readFileSync, writeFileSync, chmodSync } from "fs";
+import { join } from "path";
+import { getConfigDir, ensureConfigDir } from "../config/paths.ts";
+import type { ReportTrigger } from "../history/triggers.ts";
+import type { Severity } from "./rules.ts";
+
+export interface EscalationSettings {
+  enabled: boolean;
+  minSeverity: Severity;
+  resendAfter: string;
+  maxResends: number;
+  email: boolean;
+  phoneNumber: string;
+}
+
+export interface PendingAck {
+  id: number;
+  trigger: ReportTrigger;
+  severity: Severity;
+  message: string;
+  sentAt: number;
+  lastSentAt: number;
+  resends: number;
+  escalatedAt: number | null;
+  acknowledgedAt: number | null;
+  acknowledgedBy: string | null;
+}
+
+export interface FollowUps {
+  resend: PendingAck[];
+  escalate: PendingAck[];
+}
+
+interface AckStateFile {
+  nextId: number;
+  alerts: Record<string, PendingAck>;
+}
+
+export const DEFAULT_ESCALATION: EscalationSettings = {
+  enabled: true,
+  minSeverity: "critical",
+  resendAfter: "15m",
+  maxResends: 2,
+  email: true,
+  phoneNumber: "",
+};
+
+const KEEP_MS = 24 * 60 * 60 * 1000;
+
+export function getAckStateFile(): string {
+  return join(getConfigDir(), "pending-acks.json");
+}
+
+function loadState(): AckStateFile {
+  const file = getAckStateFile();
+  if (!existsSync(file)) return { nextId: 1, alerts: {} };
+  try {
+    return JSON.parse(readFileSync(file, "utf-8"));
+  } catch {
+    console.error(`[WARN] Could not read ${file} - starting with no pending acknowledgements`);
+    return { nextId: 1, alerts: {} };
+  }
+}
+
+function saveState(current: AckStateFile): void {
+  ensureConfigDir();
+  const file = getAckStateFile();
+  writeFileSync(file, JSON.stringify(current, null, 2), { mode: 0o600 });
+  chmodSync(file, 0o600);
+}
+
+export function registerAck(trigger: ReportTrigger, severity: Severity, message: string, now = Date.now()): PendingAck {
+  const current = loadState();
+  const pending: PendingAck = {
+    id: current.nextId++,
+    trigger,
+    severity,
+    message,
+    sentAt: now,
+    lastSentAt: now,
+    resends: 0,
+    escalatedAt: null,
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+  };
+  current.alerts[pending.id] = pending;
+  saveState(current);
+  return pending;
+}
+
+export function forgetAck(id: number): void {
+  const current = loadState();
+  if (!current.alerts[id]) return;
+  delete current.alerts[id];
+  saveState(current);
+}
+
+export function listUnacknowledged(): PendingAck[] {
+  return Object.values(loadState().alerts).filter((alert) => alert.acknowledgedAt === null);
+}
+
+export function acknowledge(id: number | "all", by: string, now = Date.now()): PendingAck[] {
+  const current = loadState();
+  const targets = Object.values(current.alerts).filter(
+    (alert) => alert.acknowledgedAt === null && (id === "all" || alert.id === id)
+  );
+  for (const alert of targets) {
+    alert.acknowledgedAt = now;
+    alert.acknowledgedBy = by;
+  }
+  if (targets.length > 0) saveState(current);
+  return targets;
+}
+
+export function collectFollowUps(
+  resendAfterMs: number,
+  maxResends: number,
+  isHeld: (alert: PendingAck) => boolean = () => false,
+  now = Date.now()
+): FollowUps {
+  const current = loadState();
+  const followUps: FollowUps = { resend: [], escalate: [] };
+
+  for (const [key, alert] of Object.entries(current.alerts)) {
+    const settledAt = alert.acknowledgedAt ?? alert.escalatedAt;
+    if (settledAt !== null) {
+      if (now - settledAt >= KEEP_MS) delete current.alerts[key];
+      continue;
+    }
+    if (now - alert.lastSentAt < resendAfterMs || isHeld(alert)) continue;
+
+    alert.lastSentAt = now;
+    if (alert.resends < maxResends) {
+      alert.resends++;
+      followUps.resend.push(alert);
+    } else {
+      alert.escalatedAt = now;
+      followUps.escalate.push(alert);
+    }
+  }
+
+  saveState(current);
+  return followUps;
+}
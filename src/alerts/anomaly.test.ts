@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setConfigDir } from "../config/paths.ts";
+import { closeHistory, openHistory } from "../history/store.ts";
+import { detectAnomalies, isWarmingUp, resetAnomalyState } from "./anomaly.ts";
+import { DEFAULT_ANOMALY_SETTINGS, type AnomalySettings } from "./baseline.ts";
+import type { MetricSample } from "./sampler.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 14, 30, 0).getTime();
+const SETTINGS: AnomalySettings = { ...DEFAULT_ANOMALY_SETTINGS, metrics: ["cpu"], for: "0s" };
+
+function insertCpu(ts: number, cpu: number): void {
+  openHistory().prepare("INSERT INTO samples (ts, cpu, ram, disk, cpu_sq) VALUES (?, ?, 0, 0, ?)").run(ts, cpu, cpu * cpu);
+}
+
+function sample(cpu: number, time = NOW): MetricSample {
+  return {
+    time,
+    cpu,
+    ram: 0,
+    disk: 0,
+    temperature: null,
+    mounts: {},
+    inodes: {},
+    daysUntilFull: {},
+    processes: 0,
+    sessions: 0,
+    failedLogins: 0,
+    connections: 0,
+  };
+}
+
+beforeEach(() => {
+  setConfigDir(mkdtempSync(join(tmpdir(), "denoo-anomaly-")));
+  resetAnomalyState();
+});
+
+afterEach(() => {
+  closeHistory();
+});
+
+describe("isWarmingUp", () => {
+  test("holds off until the first sample is warmupDays old", () => {
+    expect(isWarmingUp(SETTINGS, NOW)).toBe(true);
+    insertCpu(NOW - 3 * DAY_MS, 20);
+    expect(isWarmingUp(SETTINGS, NOW)).toBe(true);
+    insertCpu(NOW - 8 * DAY_MS, 20);
+    expect(isWarmingUp(SETTINGS, NOW)).toBe(false);
+  });
+
+  test("reports nothing while warming up", () => {
+    insertCpu(NOW - 2 * DAY_MS, 20);
+    expect(detectAnomalies(sample(99), SETTINGS, "warning")).toEqual([]);
+  });
+});
+
+describe("detectAnomalies", () => {
+  beforeEach(() => {
+    for (let week = 1; week <= 3; week++) {
+      for (const [minute, cpu] of [[0, 10], [15, 30], [30, 10], [45, 30]] as const) {
+        insertCpu(NOW - week * 7 * DAY_MS - 30 * 60 * 1000 + minute * 60 * 1000, cpu);
+      }
+    }
+  });
+
+  test("flags values more than zScore deviations from the slot mean", () => {
+    const [anomaly, ...rest] = detectAnomalies(sample(65), SETTINGS, "warning");
+    expect(rest).toHaveLength(0);
+    expect(anomaly).toMatchObject({ metric: "cpu", fingerprint: "cpu|high", severity: "warning" });
+    expect(anomaly!.zScore).toBeCloseTo(4.5, 5);
+    expect(anomaly!.expected).toEqual([0, 50]);
+  });
+
+  test("stays quiet within the expected range", () => {
+    expect(detectAnomalies(sample(45), SETTINGS, "warning")).toEqual([]);
+  });
+
+  test("needs minSamples in the slot", () => {
+    expect(detectAnomalies(sample(65), { ...SETTINGS, minSamples: 20 }, "warning")).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import { getBaseline, getFirstSampleTime, type BaselineSlot } from "../history/store.ts";
+import { parseDuration } from "../utils/time.ts";
+import type { MetricSample } from "./sampler.ts";
+import type { Severity } from "./rules.ts";
+import type { AnomalyMetric, AnomalySettings } from "./baseline.ts";
+
+export interface Anomaly {
+  fingerprint: string;
+  metric: AnomalyMetric;
+  name: string;
+  severity: Severity;
+  value: number;
+  expected: [number, number];
+  zScore: number;
+  since: number;
+  message: string;
+}
+
+const METRIC_INFO: Record<AnomalyMetric, { label: string; unit: string; minStddev: number; max?: number }> = {
+  cpu: { label: "CPU usage", unit: "%", minStddev: 2, max: 100 },
+  ram: { label: "RAM usage", unit: "%", minStddev: 2, max: 100 },
+  connections: { label: "Network connections", unit: "", minStddev: 1 },
+  processes: { label: "Process count", unit: "", minStddev: 5 },
+  sessions: { label: "Active sessions", unit: "", minStddev: 0.5 },
+};
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BASELINE_REFRESH_MS = 60 * 60 * 1000;
+
+const baselines = new Map<AnomalyMetric, { computedAt: number; slots: Map<number, BaselineSlot> }>();
+const pending = new Map<string, number>();
+
+export function hourOfWeek(date: Date): number {
+  return date.getDay() * 24 + date.getHours();
+}
+
+export function describeSlot(slot: number): string {
+  return `${DAY_NAMES[Math.floor(slot / 24)]} ${String(slot % 24).padStart(2, "0")}:00`;
+}
+
+function baselineFor(metric: AnomalyMetric, days: number, now: number): Map<number, BaselineSlot> {
+  const cached = baselines.get(metric);
+  if (cached && now - cached.computedAt < BASELINE_REFRESH_MS) return cached.slots;
+
+  const slots = new Map(
+    getBaseline(metric, new Date(now - days * DAY_MS), new Date(now)).map((slot) => [slot.slot, slot])
+  );
+  baselines.set(metric, { computedAt: now, slots });
+  return slots;
+}
+
+function formatValue(value: number, unit: string): string {
+  return unit === "%" ? `${value.toFixed(1)}%` : `${Math.round(value)}`;
+}
+
+export function isWarmingUp(settings: AnomalySettings, now = Date.now()): boolean {
+  const first = getFirstSampleTime();
+  return first === null || now - first < settings.warmupDays * DAY_MS;
+}
+
+export function detectAnomalies(
+  sample: MetricSample,
+  settings: AnomalySettings,
+  severity: Severity,
+  firingSince: (fingerprint: string) => number | null = () => null
+): Anomaly[] {
+  const now = sample.time;
+  if (isWarmingUp(settings, now)) {
+    pending.clear();
+    return [];
+  }
+
+  const slot = hourOfWeek(new Date(now));
+  const holdFor = parseDuration(settings.for) ?? 0;
+  const anomalies: Anomaly[] = [];
+
+  for (const metric of settings.metrics) {
+    const baseline = baselineFor(metric, settings.baselineDays, now).get(slot);
+    const value = sample[metric];
+    const { label, unit, minStddev, max } = METRIC_INFO[metric];
+
+    if (!baseline || baseline.samples < settings.minSamples) {
+      pending.delete(metric);
+      continue;
+    }
+
+    const stddev = Math.max(baseline.stddev, minStddev);
+    const z = (value - baseline.mean) / stddev;
+    if (Math.abs(z) <= settings.zScore) {
+      pending.delete(metric);
+      continue;
+    }
+
+    const direction = z > 0 ? "high" : "low";
+    const fingerprint = `${metric}|${direction}`;
+    const since = pending.get(metric) ?? firingSince(fingerprint) ?? now;
+    pending.set(metric, since);
+    if (now - since < holdFor) continue;
+
+    const low = Math.max(0, baseline.mean - settings.zScore * stddev);
+    const high = Math.min(max ?? Infinity, baseline.mean + settings.zScore * stddev);
+    anomalies.push({
+      fingerprint,
+      metric,
+      name: `${label} anomaly`,
+      severity,
+      value,
+      expected: [low, high],
+      zScore: z,
+      since,
+      message:
+        `${label} ${formatValue(value, unit)} is unusually ${direction} for ${describeSlot(slot)} ` +
+        `(expected ${formatValue(low, unit)}-${formatValue(high, unit)}, z=${z.toFixed(1)}, ` +
+        `from ${baseline.samples} samples)`,
+    });
+  }
+  return anomalies;
+}
+
+export function resetAnomalyState(): void {
+  baselines.clear();
+  pending.clear();
+}
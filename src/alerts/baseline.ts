@@ -0,0 +1,23 @@
+export const ANOMALY_METRICS = ["cpu", "ram", "connections", "processes", "sessions"] as const;
+
+export type AnomalyMetric = (typeof ANOMALY_METRICS)[number];
+
+export interface AnomalySettings {
+  enabled: boolean;
+  metrics: AnomalyMetric[];
+  zScore: number;
+  warmupDays: number;
+  baselineDays: number;
+  minSamples: number;
+  for: string;
+}
+
+export const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  enabled: true,
+  metrics: [...ANOMALY_METRICS],
+  zScore: 3,
+  warmupDays: 7,
+  baselineDays: 28,
+  minSamples: 6,
+  for: "5m",
+};
@@ -0,0 +1,169 @@
+import { existsSync, readFileSync, writeFileSync, chmodSync } from "fs";
+import { join } from "path";
+import { getConfigDir, ensureConfigDir } from "../config/paths.ts";
+import type { LoginEvent } from "../monitor/login.ts";
+
+export interface Offender {
+  host: string;
+  attempts: number;
+  usernames: string[];
+  firstSeen: number;
+  lastSeen: number;
+  alerts: number;
+  lastAlert: number | null;
+}
+
+export interface BruteForceAlert {
+  kind: "host" | "user";
+  key: string;
+  attempts: number;
+  targets: string[];
+  offender?: Offender;
+}
+
+interface Attempt {
+  time: number;
+  user: string;
+  host: string;
+}
+
+const MAX_USERNAMES = 20;
+const UNKNOWN_HOSTS = new Set(["unknown", "local", ""]);
+
+const windows = new Map<string, Attempt[]>();
+const firing = new Set<string>();
+
+let offenders: Record<string, Offender> | null = null;
+let offendersFile: string | null = null;
+
+export function getOffendersFile(): string {
+  return join(getConfigDir(), "offenders.json");
+}
+
+function loadOffenders(): Record<string, Offender> {
+  const file = getOffendersFile();
+  if (offenders && offendersFile === file) return offenders;
+
+  offendersFile = file;
+  offenders = {};
+  if (existsSync(file)) {
+    try {
+      offenders = JSON.parse(readFileSync(file, "utf-8"));
+    } catch {
+      console.error(`[WARN] Could not read ${file} - starting with an empty offender list`);
+    }
+  }
+  return offenders!;
+}
+
+function saveOffenders(current: Record<string, Offender>): void {
+  ensureConfigDir();
+  const file = getOffendersFile();
+  writeFileSync(file, JSON.stringify(current, null, 2), { mode: 0o600 });
+  chmodSync(file, 0o600);
+}
+
+export function listOffenders(): Offender[] {
+  return Object.values(loadOffenders()).sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+export function forgetOffender(host: string): boolean {
+  const current = loadOffenders();
+  if (host === "all") {
+    const removed = Object.keys(current).length > 0;
+    for (const key of Object.keys(current)) delete current[key];
+    saveOffenders(current);
+    return removed;
+  }
+  if (!current[host]) return false;
+  delete current[host];
+  saveOffenders(current);
+  return true;
+}
+
+function trackOffender(current: Record<string, Offender>, attempt: Attempt): void {
+  if (UNKNOWN_HOSTS.has(attempt.host)) return;
+
+  const offender = (current[attempt.host] ??= {
+    host: attempt.host,
+    attempts: 0,
+    usernames: [],
+    firstSeen: attempt.time,
+    lastSeen: attempt.time,
+    alerts: 0,
+    lastAlert: null,
+  });
+  offender.attempts++;
+  offender.lastSeen = attempt.time;
+  if (!offender.usernames.includes(attempt.user) && offender.usernames.length < MAX_USERNAMES) {
+    offender.usernames.push(attempt.user);
+  }
+}
+
+export function detectBruteForce(
+  events: LoginEvent[],
+  limit: number,
+  windowMs: number,
+  now = Date.now()
+): BruteForceAlert[] {
+  const current = loadOffenders();
+
+  for (const event of events) {
+    const attempt = { time: now, user: event.user, host: event.host };
+    trackOffender(current, attempt);
+    const keys = UNKNOWN_HOSTS.has(event.host) ? [`user:${event.user}`] : [`host:${event.host}`, `user:${event.user}`];
+    for (const key of keys) {
+      windows.set(key, [...(windows.get(key) ?? []), attempt]);
+    }
+  }
+
+  const alerts: BruteForceAlert[] = [];
+  for (const [key, attempts] of windows) {
+    const recent = attempts.filter((attempt) => now - attempt.time < windowMs);
+    if (recent.length === 0) {
+      windows.delete(key);
+      firing.delete(key);
+      continue;
+    }
+    windows.set(key, recent);
+
+    if (recent.length < limit) {
+      firing.delete(key);
+      continue;
+    }
+    if (firing.has(key)) continue;
+
+    const [kind, value] = key.split(/:(.*)/) as ["host" | "user", string];
+    const targets = [...new Set(recent.map((attempt) => (kind === "host" ? attempt.user : attempt.host)))];
+    if (kind === "user" && targets.length === 1 && !UNKNOWN_HOSTS.has(targets[0]!)) continue;
+    firing.add(key);
+
+    const offender = kind === "host" ? current[value] : undefined;
+    if (offender) {
+      offender.alerts++;
+      offender.lastAlert = now;
+    }
+    alerts.push({ kind, key: value, attempts: recent.length, targets, offender });
+  }
+
+  if (events.length > 0 || alerts.length > 0) {
+    saveOffenders(current);
+  }
+  return alerts;
+}
+
+export function describeBruteForce(alert: BruteForceAlert, window: string): string {
+  if (alert.kind === "user") {
+    return `User ${alert.key}: ${alert.attempts} failed logins in ${window} from ${alert.targets.join(", ")}`;
+  }
+
+  const line = `${alert.key}: ${alert.attempts} failed logins in ${window} targeting ${alert.targets.join(", ")}`;
+  const offender = alert.offender;
+  if (!offender || offender.alerts <= 1) return line;
+  return `${line} (repeat offender: ${offender.attempts} attempts since ${new Date(offender.firstSeen).toLocaleString()})`;
+}
+
+export function resetBruteForceState(): void {
+  windows.clear();
+  firing.clear();
+}
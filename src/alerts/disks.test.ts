@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setConfigDir } from "../config/paths.ts";
+import { closeHistory, openHistory } from "../history/store.ts";
+import { DEFAULT_DISK_ALERTS, filterMounts, forecastDaysUntilFull, matchesMount } from "./disks.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = new Date(2026, 9, 19, 12, 0, 0).getTime();
+
+function mount(path: string, type = "ext4") {
+  return { mount: path, type, size: 100, used: 50, usagePercent: 50, inodesPercent: 10 };
+}
+
+function recordUsage(path: string, points: Array<[hoursAgo: number, usage: number]>): void {
+  const insert = openHistory().prepare("INSERT INTO mount_samples (ts, mount, usage, usage_max) VALUES (?, ?, ?, ?)");
+  for (const [hoursAgo, usage] of points) insert.run(NOW - hoursAgo * HOUR_MS, path, usage, usage);
+}
+
+beforeEach(() => {
+  setConfigDir(mkdtempSync(join(tmpdir(), "denoo-disks-")));
+});
+
+afterEach(() => {
+  closeHistory();
+});
+
+describe("matchesMount", () => {
+  test("matches exact paths and globs", () => {
+    expect(matchesMount("/", ["/"])).toBe(true);
+    expect(matchesMount("/snap/core/1", ["/snap/*"])).toBe(true);
+    expect(matchesMount("/snapshots", ["/snap/*"])).toBe(false);
+    expect(matchesMount("/mnt/a.b", ["/mnt/a?b"])).toBe(false);
+  });
+});
+
+describe("filterMounts", () => {
+  test("applies include, exclude and filesystem type filters", () => {
+    const mounts = [mount("/"), mount("/data"), mount("/snap/core/1"), mount("/run/user/1000", "tmpfs"), mount("/boot", "vfat")];
+    expect(filterMounts(mounts, DEFAULT_DISK_ALERTS).map((m) => m.mount)).toEqual(["/", "/data", "/boot"]);
+    expect(filterMounts(mounts, { ...DEFAULT_DISK_ALERTS, include: ["/", "/data*"] }).map((m) => m.mount)).toEqual([
+      "/",
+      "/data",
+    ]);
+    expect(filterMounts(mounts, { ...DEFAULT_DISK_ALERTS, excludeTypes: ["vfat"] }).map((m) => m.mount)).toEqual([
+      "/",
+      "/data",
+    ]);
+  });
+});
+
+describe("forecastDaysUntilFull", () => {
+  test("extrapolates steady growth to a full disk", () => {
+    recordUsage("/data", [[20, 70], [16, 72], [12, 74], [8, 76], [4, 78], [1, 79.5]]);
+    expect(forecastDaysUntilFull("/data", 80, DAY_MS, NOW)).toBeCloseTo(20 / 12, 5);
+  });
+
+  test("returns null without enough history", () => {
+    recordUsage("/data", [[5, 70], [4, 72], [3, 74], [2, 76], [1, 78]]);
+    expect(forecastDaysUntilFull("/data", 80, DAY_MS, NOW)).toBeNull();
+  });
+
+  test("returns null when the samples span too little of the window", () => {
+    recordUsage("/data", [[5, 70], [4, 72], [3, 74], [2, 76], [1.5, 77], [1, 78]]);
+    expect(forecastDaysUntilFull("/data", 80, DAY_MS, NOW)).toBeNull();
+  });
+
+  test("returns null for flat or shrinking usage and ignores other mounts", () => {
+    recordUsage("/data", [[20, 80], [16, 79], [12, 78], [8, 77], [4, 76], [1, 75]]);
+    recordUsage("/", [[20, 10], [16, 20], [12, 30], [8, 40], [4, 50], [1, 60]]);
+    expect(forecastDaysUntilFull("/data", 75, DAY_MS, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import { queryMountSamples } from "../history/store.ts";
+import type { SystemStats } from "../monitor/system.ts";
+
+export interface DiskAlertSettings {
+  include: string[];
+  exclude: string[];
+  excludeTypes: string[];
+  thresholds: Record<string, number>;
+  inodeThreshold: number;
+  forecastDays: number;
+  forecastWindow: string;
+}
+
+export const DEFAULT_DISK_ALERTS: DiskAlertSettings = {
+  include: ["*"],
+  exclude: ["/snap/*", "/run/*", "/dev", "/dev/*", "/sys/*", "/proc/*", "/var/lib/docker/*"],
+  excludeTypes: ["tmpfs", "devtmpfs", "squashfs", "overlay", "iso9660"],
+  thresholds: {},
+  inodeThreshold: 90,
+  forecastDays: 3,
+  forecastWindow: "24h",
+};
+
+type Mount = SystemStats["disk"]["mounts"][number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_FORECAST_SAMPLES = 6;
+
+function globToRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+export function matchesMount(mount: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegex(pattern).test(mount));
+}
+
+export function filterMounts(mounts: Mount[], settings: DiskAlertSettings): Mount[] {
+  return mounts.filter(
+    (m) =>
+      matchesMount(m.mount, settings.include) &&
+      !matchesMount(m.mount, settings.exclude) &&
+      !settings.excludeTypes.includes(m.type)
+  );
+}
+
+function growthPerMs(points: Array<{ ts: number; value: number }>): number {
+  const meanTs = points.reduce((sum, p) => sum + p.ts, 0) / points.length;
+  const meanValue = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of points) {
+    covariance += (p.ts - meanTs) * (p.value - meanValue);
+    variance += (p.ts - meanTs) ** 2;
+  }
+  return variance > 0 ? covariance / variance : 0;
+}
+
+export function forecastDaysUntilFull(mount: string, current: number, windowMs: number, now = Date.now()): number | null {
+  const points = queryMountSamples(mount, new Date(now - windowMs), new Date(now));
+  if (points.length < MIN_FORECAST_SAMPLES) return null;
+  if (points[points.length - 1]!.ts - points[0]!.ts < windowMs / 4) return null;
+
+  const slope = growthPerMs([...points, { ts: now, value: current }]);
+  if (slope <= 0) return null;
+  return Math.max(0, (100 - current) / slope / DAY_MS);
+}
@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import {
+  COMPARATORS,
+  evaluateRules,
+  legacyRules,
+  renderAlertMessage,
+  ruleFingerprint,
+  type AlertRule,
+  type Comparator,
+} from "./rules.ts";
+import { DEFAULT_DISK_ALERTS } from "./disks.ts";
+import type { MetricSample } from "./sampler.ts";
+
+const T0 = new Date(2026, 9, 19, 12, 0, 0).getTime();
+const MINUTE = 60 * 1000;
+
+function sample(overrides: Partial<MetricSample> = {}): MetricSample {
+  return {
+    time: T0,
+    cpu: 50,
+    ram: 40,
+    disk: 30,
+    temperature: null,
+    mounts: { "/": 30, "/data": 95 },
+    inodes: { "/": 10, "/data": 92 },
+    daysUntilFull: {},
+    processes: 200,
+    sessions: 1,
+    failedLogins: 0,
+    connections: 12,
+    ...overrides,
+  };
+}
+
+describe("evaluateRules", () => {
+  test.each([
+    [">", 50, false],
+    [">=", 50, true],
+    ["<", 50, false],
+    ["<=", 50, true],
+    ["==", 50, true],
+    ["!=", 50, false],
+    [">", 49, true],
+    ["<", 51, true],
+    ["!=", 49, true],
+  ] as Array<[Comparator, number, boolean]>)("cpu 50 %s %d fires: %p", (comparator, threshold, fires) => {
+    const rule: AlertRule = { name: `cmp ${comparator} ${threshold}`, metric: "cpu", comparator, threshold };
+    expect(evaluateRules([rule], sample())).toHaveLength(fires ? 1 : 0);
+  });
+
+  test("covers every comparator", () => {
+    expect([...COMPARATORS].sort()).toEqual(["!=", "<", "<=", "==", ">", ">="]);
+  });
+
+  test("waits for the for duration before firing", () => {
+    const rule: AlertRule = { name: "sustained cpu", metric: "cpu", comparator: ">", threshold: 40, for: "5m" };
+    expect(evaluateRules([rule], sample({ time: T0 }))).toHaveLength(0);
+    expect(evaluateRules([rule], sample({ time: T0 + 4 * MINUTE }))).toHaveLength(0);
+    const [alert] = evaluateRules([rule], sample({ time: T0 + 5 * MINUTE }));
+    expect(alert).toMatchObject({ name: "sustained cpu", since: T0, value: 50 });
+  });
+
+  test("restarts the for window when the condition clears", () => {
+    const rule: AlertRule = { name: "flapping cpu", metric: "cpu", comparator: ">", threshold: 40, for: "5m" };
+    evaluateRules([rule], sample({ time: T0 }));
+    evaluateRules([rule], sample({ time: T0 + 3 * MINUTE, cpu: 10 }));
+    expect(evaluateRules([rule], sample({ time: T0 + 6 * MINUTE }))).toHaveLength(0);
+    expect(evaluateRules([rule], sample({ time: T0 + 11 * MINUTE }))).toHaveLength(1);
+  });
+
+  test("expands mount wildcards into one alert per mount", () => {
+    const rule: AlertRule = { metric: "inodes", mount: "*", comparator: ">", threshold: 90 };
+    const alerts = evaluateRules([rule], sample());
+    expect(alerts.map((alert) => alert.mount)).toEqual(["/data"]);
+    expect(alerts[0]).toMatchObject({ name: "Inode usage on /data", fingerprint: ruleFingerprint(rule, "/data") });
+  });
+
+  test("checks a single mount and skips mounts without a value", () => {
+    const data: AlertRule = { metric: "disk", mount: "/data", comparator: ">", threshold: 90 };
+    const missing: AlertRule = { metric: "disk", mount: "/backup", comparator: ">", threshold: 0 };
+    expect(evaluateRules([data, missing], sample()).map((alert) => alert.mount)).toEqual(["/data"]);
+  });
+
+  test("uses the overall disk usage for disk rules without a mount", () => {
+    const rule: AlertRule = { metric: "disk", comparator: ">", threshold: 25 };
+    const [alert] = evaluateRules([rule], sample());
+    expect(alert).toMatchObject({ value: 30, mount: undefined, name: "Disk usage" });
+  });
+
+  test("renders the message template and falls back to the default severity", () => {
+    const rule: AlertRule = {
+      metric: "connections",
+      comparator: ">",
+      threshold: 10,
+      message: "{{name}} at {{value}} (limit {{threshold}}) {{unknown}}",
+    };
+    const [alert] = evaluateRules([rule], sample(), "critical");
+    expect(alert).toMatchObject({ severity: "critical", message: "Network connections at 12 (limit 10) {{unknown}}" });
+    expect(evaluateRules([{ ...rule, severity: "info" }], sample())[0]!.severity).toBe("info");
+  });
+
+  test("ignores rules on a metric the sample does not have", () => {
+    expect(evaluateRules([{ metric: "temperature", comparator: ">", threshold: 0 }], sample())).toHaveLength(0);
+  });
+});
+
+describe("legacyRules", () => {
+  test("turns the thresholds into per-mount disk rules with overrides", () => {
+    const disks = { ...DEFAULT_DISK_ALERTS, thresholds: { "/data": 97 }, forecastDays: 0 };
+    const rules = legacyRules({ cpuThreshold: 80, ramThreshold: 85, diskThreshold: 90, disks }, ["/", "/data"]);
+    expect(rules.filter((rule) => rule.metric === "disk").map((rule) => [rule.mount, rule.threshold])).toEqual([
+      ["/", 90],
+      ["/data", 97],
+    ]);
+    expect(rules.some((rule) => rule.metric === "daysUntilFull")).toBe(false);
+  });
+
+  test("adds a forecast rule when forecastDays is set", () => {
+    const rules = legacyRules({ cpuThreshold: 80, ramThreshold: 85, diskThreshold: 90, disks: DEFAULT_DISK_ALERTS }, []);
+    expect(rules.find((rule) => rule.metric === "daysUntilFull")).toMatchObject({ comparator: "<", threshold: 3 });
+  });
+});
+
+describe("renderAlertMessage", () => {
+  test("replaces known placeholders and keeps unknown ones", () => {
+    expect(renderAlertMessage("{{ mount }} full in {{value}} days {{x}}", { mount: "/data", value: 2 })).toBe(
+      "/data full in 2 days {{x}}"
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { parseDuration } from "../utils/time.ts";
+import type { MetricSample } from "./sampler.ts";
+import type { DiskAlertSettings } from "./disks.ts";
+
+export const ALERT_METRICS = [
+  "cpu",
+  "ram",
+  "disk",
+  "inodes",
+  "daysUntilFull",
+  "temperature",
+  "processes",
+  "sessions",
+  "failedLogins",
+  "connections",
+] as const;
+
+export const COMPARATORS = [">", ">=", "<", "<=", "==", "!="] as const;
+
+export const SEVERITIES = ["info", "warning", "critical"] as const;
+
+export type AlertMetric = (typeof ALERT_METRICS)[number];
+export type Comparator = (typeof COMPARATORS)[number];
+export type Severity = (typeof SEVERITIES)[number];
+
+export interface AlertRule {
+  name?: string;
+  metric: AlertMetric;
+  mount?: string;
+  comparator: Comparator;
+  threshold: number;
+  for?: string;
+  severity?: Severity;
+  message?: string;
+}
+
+export interface LegacyThresholds {
+  cpuThreshold: number;
+  ramThreshold: number;
+  diskThreshold: number;
+  disks: DiskAlertSettings;
+}
+
+export interface RuleAlert {
+  fingerprint: string;
+  rule: AlertRule;
+  name: string;
+  severity: Severity;
+  value: number;
+  mount?: string;
+  since: number;
+  message: string;
+}
+
+const METRIC_INFO: Record<AlertMetric, { label: string; unit: string }> = {
+  cpu: { label: "CPU usage", unit: "%" },
+  ram: { label: "RAM usage", unit: "%" },
+  disk: { label: "Disk usage", unit: "%" },
+  inodes: { label: "Inode usage", unit: "%" },
+  daysUntilFull: { label: "Days until full", unit: " days" },
+  temperature: { label: "CPU temperature", unit: "°C" },
+  processes: { label: "Process count", unit: "" },
+  sessions: { label: "Active sessions", unit: "" },
+  failedLogins: { label: "Failed logins (last hour)", unit: "" },
+  connections: { label: "Network connections", unit: "" },
+};
+
+const DEFAULT_MESSAGE = "{{name}}: {{value}}{{unit}} ({{comparator}} {{threshold}}{{unit}})";
+
+const pending = new Map<string, number>();
+
+const FORECAST_MESSAGE = "{{mount}} will be full in ~{{value}} days at the current growth rate";
+
+export function legacyRules(thresholds: LegacyThresholds, mounts: string[]): AlertRule[] {
+  const { disks } = thresholds;
+  const rules: AlertRule[] = [
+    { name: "CPU usage", metric: "cpu", comparator: ">", threshold: thresholds.cpuThreshold },
+    { name: "RAM usage", metric: "ram", comparator: ">", threshold: thresholds.ramThreshold },
+    ...mounts.map((mount): AlertRule => ({
+      metric: "disk",
+      mount,
+      comparator: ">",
+      threshold: disks.thresholds[mount] ?? thresholds.diskThreshold,
+    })),
+    { metric: "inodes", mount: "*", comparator: ">", threshold: disks.inodeThreshold },
+  ];
+  if (disks.forecastDays > 0) {
+    rules.push({
+      metric: "daysUntilFull",
+      mount: "*",
+      comparator: "<",
+      threshold: disks.forecastDays,
+      message: FORECAST_MESSAGE,
+    });
+  }
+  return rules;
+}
+
+export function getAlertRules(alerts: LegacyThresholds & { rules: AlertRule[] }, sample: MetricSample): AlertRule[] {
+  return [...legacyRules(alerts, Object.keys(sample.mounts)), ...alerts.rules];
+}
+
+function compare(value: number, comparator: Comparator, threshold: number): boolean {
+  switch (comparator) {
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+    case "==":
+      return value === threshold;
+    case "!=":
+      return value !== threshold;
+  }
+}
+
+function perMount(metric: AlertMetric, sample: MetricSample): Record<string, number> | null {
+  switch (metric) {
+    case "disk":
+      return sample.mounts;
+    case "inodes":
+      return sample.inodes;
+    case "daysUntilFull":
+      return sample.daysUntilFull;
+    default:
+      return null;
+  }
+}
+
+function targets(rule: AlertRule, sample: MetricSample): Array<{ mount?: string; value: number | null }> {
+  const values = perMount(rule.metric, sample);
+  if (values && (rule.mount === "*" || (!rule.mount && rule.metric !== "disk"))) {
+    return Object.entries(values).map(([mount, value]) => ({ mount, value }));
+  }
+  if (values && rule.mount) {
+    return [{ mount: rule.mount, value: values[rule.mount] ?? null }];
+  }
+  return [{ value: sample[rule.metric as Exclude<AlertMetric, "inodes" | "daysUntilFull">] }];
+}
+
+export function meetsSeverity(severity: Severity, minimum: Severity): boolean {
+  return SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(minimum);
+}
+
+export function ruleFingerprint(rule: AlertRule, mount?: string): string {
+  return [rule.name ?? "", rule.metric, mount ?? "", rule.comparator, rule.threshold].join("|");
+}
+
+export function renderAlertMessage(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  );
+}
+
+export function evaluateRules(
+  rules: AlertRule[],
+  sample: MetricSample,
+  defaultSeverity: Severity = "warning",
+  firingSince: (fingerprint: string) => number | null = () => null
+): RuleAlert[] {
+  const active: RuleAlert[] = [];
+  const seen = new Set<string>();
+
+  for (const rule of rules) {
+    for (const { mount, value } of targets(rule, sample)) {
+      const fingerprint = ruleFingerprint(rule, mount);
+      seen.add(fingerprint);
+
+      if (value === null || !compare(value, rule.comparator, rule.threshold)) {
+        pending.delete(fingerprint);
+        continue;
+      }
+
+      const since = pending.get(fingerprint) ?? firingSince(fingerprint) ?? sample.time;
+      pending.set(fingerprint, since);
+      const holdFor = rule.for ? parseDuration(rule.for) ?? 0 : 0;
+      if (sample.time - since < holdFor) continue;
+
+      const { label, unit } = METRIC_INFO[rule.metric];
+      const name = rule.name || (mount ? `${label} on ${mount}` : label);
+      const message = renderAlertMessage(rule.message || DEFAULT_MESSAGE, {
+        name,
+        metric: rule.metric,
+        mount: mount ?? "",
+        value: Math.round(value * 10) / 10,
+        threshold: rule.threshold,
+        comparator: rule.comparator,
+        unit,
+        for: rule.for ?? "",
+      });
+      active.push({ fingerprint, rule, name, severity: rule.severity ?? defaultSeverity, value, mount, since, message });
+    }
+  }
+
+  for (const fingerprint of pending.keys()) {
+    if (!seen.has(fingerprint)) pending.delete(fingerprint);
+  }
+  return active;
+}
+
+export function resetRuleState(): void {
+  pending.clear();
+}
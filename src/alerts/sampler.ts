@@ -0,0 +1,55 @@
+import { getSystemStats } from "../monitor/system.ts";
+import { getCurrentSessions, getFailedLogins } from "../monitor/login.ts";
+import { parseDuration } from "../utils/time.ts";
+import { filterMounts, forecastDaysUntilFull, type DiskAlertSettings } from "./disks.ts";
+
+export interface MetricSample {
+  time: number;
+  cpu: number;
+  ram: number;
+  disk: number;
+  temperature: number | null;
+  mounts: Record<string, number>;
+  inodes: Record<string, number>;
+  daysUntilFull: Record<string, number>;
+  processes: number;
+  sessions: number;
+  failedLogins: number;
+  connections: number;
+}
+
+export async function sampleMetrics(disks: DiskAlertSettings, forecast: boolean): Promise<MetricSample> {
+  const [system, sessions, failedLogins] = await Promise.all([
+    getSystemStats(),
+    getCurrentSessions(),
+    getFailedLogins(1),
+  ]);
+
+  const time = system.timestamp.getTime();
+  const mounts = filterMounts(system.disk.mounts, disks);
+  const daysUntilFull: Record<string, number> = {};
+  if (forecast && disks.forecastDays > 0) {
+    const windowMs = parseDuration(disks.forecastWindow) ?? 0;
+    for (const mount of mounts) {
+      const days = forecastDaysUntilFull(mount.mount, mount.usagePercent, windowMs, time);
+      if (days !== null) daysUntilFull[mount.mount] = days;
+    }
+  }
+
+  return {
+    time,
+    cpu: system.cpu.usage,
+    ram: system.memory.usagePercent,
+    disk: system.disk.usagePercent,
+    temperature: system.cpu.temperature,
+    mounts: Object.fromEntries(mounts.map((m) => [m.mount, m.usagePercent])),
+    inodes: Object.fromEntries(
+      mounts.filter((m) => m.inodesPercent !== null).map((m) => [m.mount, m.inodesPercent!])
+    ),
+    daysUntilFull,
+    processes: system.processes.total,
+    sessions: sessions.length,
+    failedLogins: failedLogins.length,
+    connections: system.network.connections.length,
+  };
+}
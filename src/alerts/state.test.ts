@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setConfigDir } from "../config/paths.ts";
+import { evaluateRules, ruleFingerprint, type AlertRule } from "./rules.ts";
+import { firingSince, listTrackedAlerts, reconcileAlerts, type ActiveAlert } from "./state.ts";
+import type { MetricSample } from "./sampler.ts";
+
+const T0 = new Date(2026, 9, 19, 12, 0, 0).getTime();
+const MINUTE = 60 * 1000;
+const CPU: ActiveAlert = { fingerprint: "cpu", name: "CPU usage", severity: "warning", message: "CPU usage: 97%" };
+
+function sample(cpu: number, time: number): MetricSample {
+  return {
+    time,
+    cpu,
+    ram: 0,
+    disk: 0,
+    temperature: null,
+    mounts: {},
+    inodes: {},
+    daysUntilFull: {},
+    processes: 0,
+    sessions: 0,
+    failedLogins: 0,
+    connections: 0,
+  };
+}
+
+beforeEach(() => {
+  setConfigDir(mkdtempSync(join(tmpdir(), "denoo-state-")));
+});
+
+describe("reconcileAlerts", () => {
+  test("reports a persisting alert once", () => {
+    expect(reconcileAlerts("rules", [CPU], 0, T0).firing).toHaveLength(1);
+    expect(reconcileAlerts("rules", [CPU], 0, T0 + MINUTE)).toEqual({ firing: [], repeating: [], resolved: [] });
+  });
+
+  test("repeats a persisting alert after the cooldown", () => {
+    reconcileAlerts("rules", [CPU], 30 * MINUTE, T0);
+    expect(reconcileAlerts("rules", [CPU], 30 * MINUTE, T0 + 10 * MINUTE).repeating).toHaveLength(0);
+    const { repeating } = reconcileAlerts("rules", [CPU], 30 * MINUTE, T0 + 31 * MINUTE);
+    expect(repeating).toHaveLength(1);
+    expect(repeating[0]).toMatchObject({ fingerprint: "cpu", since: T0, lastNotified: T0 + 31 * MINUTE });
+  });
+
+  test("resolves once and does not re-send a flap within the cooldown", () => {
+    reconcileAlerts("rules", [CPU], 30 * MINUTE, T0);
+    const { resolved } = reconcileAlerts("rules", [], 30 * MINUTE, T0 + MINUTE);
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0]).toMatchObject({ status: "resolved", resolvedAt: T0 + MINUTE });
+
+    expect(reconcileAlerts("rules", [CPU], 30 * MINUTE, T0 + 2 * MINUTE).firing).toHaveLength(0);
+    expect(reconcileAlerts("rules", [], 30 * MINUTE, T0 + 3 * MINUTE).resolved).toHaveLength(0);
+  });
+
+  test("forgets resolved alerts after the cooldown", () => {
+    reconcileAlerts("rules", [CPU], 30 * MINUTE, T0);
+    reconcileAlerts("rules", [], 30 * MINUTE, T0 + MINUTE);
+    reconcileAlerts("rules", [], 30 * MINUTE, T0 + 40 * MINUTE);
+    expect(listTrackedAlerts()).toHaveLength(0);
+    expect(reconcileAlerts("rules", [CPU], 30 * MINUTE, T0 + 41 * MINUTE).firing).toHaveLength(1);
+  });
+
+  test("keeps sources apart", () => {
+    reconcileAlerts("rules", [CPU], 0, T0);
+    expect(reconcileAlerts("anomaly", [], 0, T0 + MINUTE).resolved).toHaveLength(0);
+    expect(firingSince("rules", "cpu")).toBe(T0);
+    expect(firingSince("anomaly", "cpu")).toBeNull();
+  });
+});
+
+describe("restart with a for window", () => {
+  const rule: AlertRule = { name: "Hot CPU", metric: "cpu", comparator: ">", threshold: 90, for: "5m" };
+  const fingerprint = ruleFingerprint(rule);
+  const since = (fp: string) => firingSince("rules", fp);
+
+  test("an alert still over threshold stays firing instead of resolving and re-firing", () => {
+    expect(evaluateRules([rule], sample(95, T0), "warning", since)).toHaveLength(0);
+    const active = evaluateRules([rule], sample(95, T0 + 5 * MINUTE), "warning", since);
+    expect(reconcileAlerts("rules", active, 0, T0 + 5 * MINUTE).firing).toHaveLength(1);
+
+    // The pending timers live in memory; a sample below the threshold clears them like a restart would.
+    evaluateRules([rule], sample(10, T0 + 6 * MINUTE));
+
+    const afterRestart = evaluateRules([rule], sample(95, T0 + 7 * MINUTE), "warning", since);
+    expect(afterRestart).toHaveLength(1);
+    expect(afterRestart[0]).toMatchObject({ fingerprint, since: T0 });
+    expect(reconcileAlerts("rules", afterRestart, 0, T0 + 7 * MINUTE)).toEqual({
+      firing: [],
+      repeating: [],
+      resolved: [],
+    });
+  });
+
+  test("an alert that cleared during the restart resolves", () => {
+    reconcileAlerts("rules", [{ fingerprint, name: "Hot CPU", severity: "warning", message: "Hot CPU: 95%" }], 0, T0);
+    const active = evaluateRules([rule], sample(10, T0 + MINUTE), "warning", since);
+    expect(reconcileAlerts("rules", active, 0, T0 + MINUTE).resolved).toHaveLength(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { existsSync, readFileSync, writeFileSync, chmodSync } from "fs";
+import { join } from "path";
+import { getConfigDir, ensureConfigDir } from "../config/paths.ts";
+import type { Severity } from "./rules.ts";
+
+export interface ActiveAlert {
+  fingerprint: string;
+  name: string;
+  severity: Severity;
+  message: string;
+  since?: number;
+}
+
+export interface TrackedAlert extends ActiveAlert {
+  source: string;
+  status: "firing" | "resolved";
+  since: number;
+  lastNotified: number | null;
+  resolvedAt: number | null;
+}
+
+export interface AlertTransitions {
+  firing: TrackedAlert[];
+  repeating: TrackedAlert[];
+  resolved: TrackedAlert[];
+}
+
+interface AlertStateFile {
+  alerts: Record<string, TrackedAlert>;
+}
+
+let state: AlertStateFile | null = null;
+let stateFile: string | null = null;
+
+export function getAlertStateFile(): string {
+  return join(getConfigDir(), "alert-state.json");
+}
+
+function loadState(): AlertStateFile {
+  const file = getAlertStateFile();
+  if (state && stateFile === file) return state;
+
+  stateFile = file;
+  state = { alerts: {} };
+  if (existsSync(file)) {
+    try {
+      state = JSON.parse(readFileSync(file, "utf-8"));
+    } catch {
+      console.error(`[WARN] Could not read ${file} - starting with empty alert state`);
+    }
+  }
+  return state!;
+}
+
+function saveState(current: AlertStateFile): void {
+  ensureConfigDir();
+  const file = getAlertStateFile();
+  writeFileSync(file, JSON.stringify(current, null, 2), { mode: 0o600 });
+  chmodSync(file, 0o600);
+}
+
+export function listTrackedAlerts(): TrackedAlert[] {
+  return Object.values(loadState().alerts);
+}
+
+export function firingSince(source: string, fingerprint: string): number | null {
+  const tracked = loadState().alerts[`${source}:${fingerprint}`];
+  return tracked?.status === "firing" ? tracked.since : null;
+}
+
+export function reconcileAlerts(
+  source: string,
+  active: ActiveAlert[],
+  cooldownMs: number,
+  now = Date.now()
+): AlertTransitions {
+  const current = loadState();
+  const transitions: AlertTransitions = { firing: [], repeating: [], resolved: [] };
+  const activeKeys = new Set<string>();
+
+  for (const alert of active) {
+    const key = `${source}:${alert.fingerprint}`;
+    activeKeys.add(key);
+    const tracked = current.alerts[key];
+    const coolingDown = tracked?.lastNotified != null && now - tracked.lastNotified < cooldownMs;
+
+    if (!tracked || tracked.status === "resolved") {
+      const next: TrackedAlert = {
+        fingerprint: alert.fingerprint,
+        name: alert.name,
+        severity: alert.severity,
+        message: alert.message,
+        source,
+        status: "firing",
+        since: alert.since ?? now,
+        lastNotified: coolingDown ? tracked!.lastNotified : now,
+        resolvedAt: null,
+      };
+      current.alerts[key] = next;
+      if (!coolingDown) transitions.firing.push(next);
+    } else {
+      Object.assign(tracked, { name: alert.name, severity: alert.severity, message: alert.message });
+      if (!coolingDown && cooldownMs > 0) {
+        tracked.lastNotified = now;
+        transitions.repeating.push(tracked);
+      }
+    }
+  }
+
+  for (const [key, tracked] of Object.entries(current.alerts)) {
+    if (tracked.source !== source || activeKeys.has(key)) continue;
+
+    if (tracked.status === "firing") {
+      tracked.status = "resolved";
+      tracked.resolvedAt = now;
+      if (tracked.lastNotified !== null && tracked.lastNotified >= tracked.since) {
+        transitions.resolved.push(tracked);
+      }
+    } else if (tracked.resolvedAt !== null && now - tracked.resolvedAt >= cooldownMs) {
+      delete current.alerts[key];
+    }
+  }
+
+  saveState(current);
+  return transitions;
+}
@@ -1,6 +1,6 @@
 import { Client, LocalAuth, type Message } from "whatsapp-web.js";
 import qrcode from "qrcode-terminal";
-import { getSessionDir, loadConfig, saveConfig } from "../config/settings.ts";
+import { getSessionDir, loadConfig, saveConfig, ConfigError } from "../config/settings.ts";
 
 let client: Client | null = null;
 let isReady = false;
@@ -49,9 +49,14 @@ export async function initWhatsApp(): Promise<Client> {
         console.log("[OK] WhatsApp client is ready!");
         isReady = true;
 
-      const config = loadConfig();
-      config.whatsapp.enabled = true;
-      saveConfig(config);
+      try {
+        const config = loadConfig();
+        config.whatsapp.enabled = true;
+        saveConfig(config);
+      } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        console.error(`[ERROR] Could not enable WhatsApp in the config: ${error.message}`);
+      }
 
       resolve(client!);
     });
@@ -97,7 +102,6 @@ export async function sendWhatsAppMessage(
   }
 
     try {
-      const config = loadConfig();
       const targetNumber = phoneNumber.replace(/[^0-9]/g, "");
       const myNumber = client.info.wid.user;
 
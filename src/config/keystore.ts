@@ -0,0 +1,135 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { execSync } from "child_process";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { hostname, platform, userInfo } from "os";
+import { join } from "path";
+import { getConfigDir, ensureConfigDir } from "./paths.ts";
+
+interface EncryptedSecret {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface Keystore {
+  salt: string;
+  secrets: Record<string, EncryptedSecret>;
+}
+
+export class SecretError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretError";
+  }
+}
+
+export const SMTP_PASS_SECRET = "smtp-pass";
+
+function getKeystoreFile(): string {
+  return join(getConfigDir(), "keystore.json");
+}
+
+function getMachineKey(): string {
+  for (const path of ["/etc/machine-id", "/var/lib/dbus/machine-id"]) {
+    try {
+      const id = readFileSync(path, "utf-8").trim();
+      if (id) return id;
+    } catch {}
+  }
+
+  if (platform() === "win32") {
+    try {
+      const output = execSync(
+        'reg query "HKLM\\SOFTWARE\\Microsoft\\Cryptography" /v MachineGuid',
+        { encoding: "utf-8" }
+      );
+      const match = output.match(/MachineGuid\s+REG_SZ\s+(\S+)/);
+      if (match?.[1]) return match[1];
+    } catch {}
+  }
+
+  return `${hostname()}:${userInfo().username}`;
+}
+
+function deriveKey(salt: string): Buffer {
+  return scryptSync(getMachineKey(), Buffer.from(salt, "base64"), 32);
+}
+
+function readKeystore(): Keystore {
+  const file = getKeystoreFile();
+  if (!existsSync(file)) {
+    return { salt: randomBytes(16).toString("base64"), secrets: {} };
+  }
+  try {
+    return JSON.parse(readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new SecretError(`Could not read keystore ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function writeKeystore(keystore: Keystore): void {
+  ensureConfigDir();
+  writeFileSync(getKeystoreFile(), JSON.stringify(keystore, null, 2), { mode: 0o600 });
+}
+
+export function isSecretRef(value: string): boolean {
+  return /^(env|file|keystore):/.test(value);
+}
+
+export function setKeystoreSecret(name: string, value: string): void {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new SecretError(`Invalid secret name "${name}" (letters, digits, '.', '_' and '-' only)`);
+  }
+  const keystore = readKeystore();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(keystore.salt), iv);
+  const data = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+
+  keystore.secrets[name] = {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  writeKeystore(keystore);
+}
+
+export function getKeystoreSecret(name: string): string {
+  const keystore = readKeystore();
+  const entry = keystore.secrets[name];
+  if (!entry) {
+    throw new SecretError(`Secret "${name}" not found in keystore`);
+  }
+
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      deriveKey(keystore.salt),
+      Buffer.from(entry.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(entry.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(entry.data, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    throw new SecretError(`Secret "${name}" could not be decrypted (keystore created on another machine?)`);
+  }
+}
+
+export function deleteKeystoreSecret(name: string): boolean {
+  const keystore = readKeystore();
+  if (!keystore.secrets[name]) return false;
+  delete keystore.secrets[name];
+  writeKeystore(keystore);
+  return true;
+}
+
+export function listKeystoreSecrets(): string[] {
+  return Object.keys(readKeystore().secrets).sort();
+}
+
+export function storeSecret(name: string, value: string): string {
+  if (!value || isSecretRef(value)) return value;
+  setKeystoreSecret(name, value);
+  return `keystore:${name}`;
+}
@@ -0,0 +1,63 @@
+import { isSecretRef, SMTP_PASS_SECRET } from "./keystore.ts";
+
+export interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  note?: string;
+  migrate: (raw: Record<string, any>, secrets: Record<string, string>) => Record<string, any>;
+}
+
+export const CONFIG_SCHEMA_VERSION = 3;
+
+const migrations: Migration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: "Add schemaVersion and fill in missing nested defaults",
+    migrate: (raw) => ({ ...raw, schemaVersion: 2 }),
+  },
+  {
+    from: 2,
+    to: 3,
+    description: "Move the plaintext SMTP password into the encrypted keystore",
+    note: "The backup still contains the old plaintext password; delete it once you have checked the migration.",
+    migrate: (raw, secrets) => {
+      const pass = raw.email?.smtp?.pass;
+      if (typeof pass !== "string" || !pass || isSecretRef(pass)) {
+        return { ...raw, schemaVersion: 3 };
+      }
+      secrets[SMTP_PASS_SECRET] = pass;
+      return {
+        ...raw,
+        schemaVersion: 3,
+        email: { ...raw.email, smtp: { ...raw.email.smtp, pass: `keystore:${SMTP_PASS_SECRET}` } },
+      };
+    },
+  },
+];
+
+export function getConfigVersion(raw: Record<string, any>): number {
+  return typeof raw.schemaVersion === "number" ? raw.schemaVersion : 1;
+}
+
+export function getPendingMigrations(version: number): Migration[] {
+  return migrations.filter((m) => m.from >= version && m.to <= CONFIG_SCHEMA_VERSION);
+}
+
+export function migrateConfig(raw: Record<string, any>): {
+  config: Record<string, any>;
+  applied: Migration[];
+  secrets: Record<string, string>;
+} {
+  let config = raw;
+  const applied: Migration[] = [];
+  const secrets: Record<string, string> = {};
+
+  for (const migration of getPendingMigrations(getConfigVersion(raw))) {
+    config = migration.migrate(config, secrets);
+    applied.push(migration);
+  }
+
+  return { config, applied, secrets };
+}
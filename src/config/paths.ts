@@ -0,0 +1,34 @@
+import { existsSync, mkdirSync } from "fs";
+import { homedir } from "os";
+import { join, resolve } from "path";
+
+export const BASE_CONFIG_DIR = join(homedir(), ".config", "system-monitor");
+
+let configDir = process.env.DENOO_CONFIG_DIR
+  ? resolve(process.env.DENOO_CONFIG_DIR)
+  : BASE_CONFIG_DIR;
+
+export function setConfigDir(dir: string): void {
+  configDir = resolve(dir);
+}
+
+export function getConfigDir(): string {
+  return configDir;
+}
+
+export function getConfigFile(): string {
+  return join(configDir, "config.json");
+}
+
+export function getSessionDir(): string {
+  return join(configDir, "whatsapp-session");
+}
+
+export function ensureConfigDir(): void {
+  if (!existsSync(configDir)) {
+    mkdirSync(configDir, { recursive: true });
+  }
+  if (!existsSync(getSessionDir())) {
+    mkdirSync(getSessionDir(), { recursive: true });
+  }
+}
@@ -0,0 +1,78 @@
+import { existsSync, mkdirSync, readdirSync, rmSync, copyFileSync } from "fs";
+import { join } from "path";
+import { BASE_CONFIG_DIR, ConfigError, getConfigDir } from "./settings.ts";
+
+export const DEFAULT_PROFILE = "default";
+
+const PROFILES_DIR = join(BASE_CONFIG_DIR, "profiles");
+
+export function isValidProfileName(name: string): boolean {
+  return /^[a-zA-Z0-9_-]+$/.test(name);
+}
+
+export function getProfileDir(name: string): string {
+  if (!isValidProfileName(name)) {
+    throw new ConfigError(`Invalid profile name "${name}" (letters, digits, '_' and '-' only)`);
+  }
+  return name === DEFAULT_PROFILE ? BASE_CONFIG_DIR : join(PROFILES_DIR, name);
+}
+
+export function getExistingProfileDir(name: string): string {
+  const dir = getProfileDir(name);
+  if (name !== DEFAULT_PROFILE && !existsSync(dir)) {
+    throw new ConfigError(`Profile "${name}" does not exist (create it with: denoo profile create ${name})`);
+  }
+  return dir;
+}
+
+export function listProfiles(): string[] {
+  const profiles = [DEFAULT_PROFILE];
+  if (existsSync(PROFILES_DIR)) {
+    for (const entry of readdirSync(PROFILES_DIR, { withFileTypes: true })) {
+      if (entry.isDirectory() && isValidProfileName(entry.name)) {
+        profiles.push(entry.name);
+      }
+    }
+  }
+  return profiles;
+}
+
+export function getActiveProfile(): string | null {
+  const dir = getConfigDir();
+  return listProfiles().find((name) => getProfileDir(name) === dir) ?? null;
+}
+
+export function createProfile(name: string, from?: string): string {
+  const dir = getProfileDir(name);
+  if (name === DEFAULT_PROFILE || existsSync(dir)) {
+    throw new ConfigError(`Profile "${name}" already exists`);
+  }
+
+  mkdirSync(join(dir, "whatsapp-session"), { recursive: true });
+
+  if (from) {
+    const source = join(getProfileDir(from), "config.json");
+    if (!existsSync(source)) {
+      rmSync(dir, { recursive: true, force: true });
+      throw new ConfigError(`Profile "${from}" has no configuration to copy`);
+    }
+    copyFileSync(source, join(dir, "config.json"));
+    const keystore = join(getProfileDir(from), "keystore.json");
+    if (existsSync(keystore)) {
+      copyFileSync(keystore, join(dir, "keystore.json"));
+    }
+  }
+
+  return dir;
+}
+
+export function deleteProfile(name: string): void {
+  if (name === DEFAULT_PROFILE) {
+    throw new ConfigError("The default profile cannot be deleted");
+  }
+  const dir = getProfileDir(name);
+  if (!existsSync(dir)) {
+    throw new ConfigError(`Profile "${name}" does not exist`);
+  }
+  rmSync(dir, { recursive: true, force: true });
+}
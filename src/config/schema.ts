@@ -0,0 +1,297 @@
+export interface NumberNode {
+  type: "number";
+  optional?: boolean;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export interface BooleanNode {
+  type: "boolean";
+  optional?: boolean;
+}
+
+export interface StringNode {
+  type: "string";
+  optional?: boolean;
+  enum?: readonly string[];
+  pattern?: RegExp;
+  hint?: string;
+  secret?: boolean;
+  regex?: boolean;
+}
+
+export interface ArrayNode<T> {
+  type: "array";
+  optional?: boolean;
+  items: SchemaFor<T>;
+}
+
+export interface RecordNode<T> {
+  type: "record";
+  values: SchemaFor<T>;
+}
+
+export interface ObjectNode<T> {
+  type: "object";
+  fields: { [K in keyof T]-?: SchemaFor<NonNullable<T[K]>> };
+}
+
+export type SchemaFor<T> = T extends number
+  ? NumberNode
+  : T extends boolean
+    ? BooleanNode
+    : T extends string
+      ? StringNode
+      : T extends Array<infer U>
+        ? ArrayNode<U>
+        : T extends object
+          ? string extends keyof T
+            ? RecordNode<T[string]>
+            : ObjectNode<T>
+          : never;
+
+export type SchemaNode =
+  | NumberNode
+  | BooleanNode
+  | StringNode
+  | { type: "array"; items: SchemaNode; optional?: boolean }
+  | { type: "record"; values: SchemaNode }
+  | { type: "object"; fields: Record<string, SchemaNode> };
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+const SECRET_REF = /^(env:[A-Za-z_][A-Za-z0-9_]*|file:.+|keystore:[\w.-]+)$/;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return `"${value}"`;
+  if (typeof value === "object") return "object";
+  return String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function validateNode(node: SchemaNode, value: unknown, path: string): ConfigIssue[] {
+  const at = path || "(root)";
+
+  switch (node.type) {
+    case "number": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return [{ path: at, message: `expected a number, got ${describe(value)}` }];
+      }
+      if (node.integer && !Number.isInteger(value)) {
+        return [{ path: at, message: `expected a whole number, got ${value}` }];
+      }
+      if (node.min !== undefined && value < node.min) {
+        return [{ path: at, message: `must be at least ${node.min}, got ${value}` }];
+      }
+      if (node.max !== undefined && value > node.max) {
+        return [{ path: at, message: `must be at most ${node.max}, got ${value}` }];
+      }
+      return [];
+    }
+    case "boolean":
+      return typeof value === "boolean"
+        ? []
+        : [{ path: at, message: `expected true or false, got ${describe(value)}` }];
+    case "string": {
+      if (typeof value !== "string") {
+        return [{ path: at, message: `expected a string, got ${describe(value)}` }];
+      }
+      if (node.secret && /^(env|file|keystore):/.test(value) && !SECRET_REF.test(value)) {
+        return [{ path: at, message: `malformed secret reference "${value}" (use env:NAME, file:/path or keystore:name)` }];
+      }
+      if (node.enum && !node.enum.includes(value)) {
+        return [{ path: at, message: `expected one of ${node.enum.join(", ")}, got "${value}"` }];
+      }
+      if (node.pattern && !node.pattern.test(value)) {
+        return [{ path: at, message: `${node.hint || "invalid format"}, got "${value}"` }];
+      }
+      if (node.regex) {
+        try {
+          new RegExp(value);
+        } catch (error) {
+          return [{ path: at, message: error instanceof Error ? error.message : `invalid regular expression "${value}"` }];
+        }
+      }
+      return [];
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        return [{ path: at, message: `expected a list, got ${describe(value)}` }];
+      }
+      return value.flatMap((item, i) => validateNode(node.items, item, `${path}[${i}]`));
+    }
+    case "record": {
+      if (!isPlainObject(value)) {
+        return [{ path: at, message: `expected an object, got ${describe(value)}` }];
+      }
+      return Object.entries(value).flatMap(([key, item]) =>
+        validateNode(node.values, item, path ? `${path}.${key}` : key)
+      );
+    }
+    case "object": {
+      if (!isPlainObject(value)) {
+        return [{ path: at, message: `expected an object, got ${describe(value)}` }];
+      }
+      const issues: ConfigIssue[] = [];
+      for (const [key, child] of Object.entries(node.fields)) {
+        const childPath = path ? `${path}.${key}` : key;
+        if (!(key in value)) {
+          if (!("optional" in child && child.optional)) {
+            issues.push({ path: childPath, message: "missing" });
+          }
+          continue;
+        }
+        issues.push(...validateNode(child, value[key], childPath));
+      }
+      for (const key of Object.keys(value)) {
+        if (!(key in node.fields)) {
+          issues.push({ path: path ? `${path}.${key}` : key, message: "unknown setting" });
+        }
+      }
+      return issues;
+    }
+  }
+}
+
+export function mergeDefaults<T>(defaults: T, value: unknown): T {
+  if (!isPlainObject(defaults) || !isPlainObject(value)) {
+    return (value === undefined ? defaults : value) as T;
+  }
+  const merged: Record<string, unknown> = {};
+  for (const [key, fallback] of Object.entries(defaults)) {
+    merged[key] = mergeDefaults(fallback, value[key]);
+  }
+  for (const [key, extra] of Object.entries(value)) {
+    if (!(key in merged)) merged[key] = extra;
+  }
+  return merged as T;
+}
+
+export function maskNode(node: SchemaNode, value: unknown, mask: (secret: string) => string): unknown {
+  if (node.type === "string") {
+    return node.secret && typeof value === "string" ? mask(value) : value;
+  }
+  if (node.type === "array" && Array.isArray(value)) {
+    return value.map((item) => maskNode(node.items, item, mask));
+  }
+  if (node.type === "record" && isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, maskNode(node.values, item, mask)])
+    );
+  }
+  if (node.type === "object" && isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        const child = node.fields[key];
+        return [key, child ? maskNode(child, item, mask) : item];
+      })
+    );
+  }
+  return value;
+}
+
+export function splitPath(path: string): string[] {
+  return path.replace(/\[(\d+)\]/g, ".$1").split(".").filter(Boolean);
+}
+
+function joinPath(segments: string[]): string {
+  return segments.map((segment, i) => (/^\d+$/.test(segment) ? `[${segment}]` : i === 0 ? segment : `.${segment}`)).join("");
+}
+
+export function getSchemaNode(root: SchemaNode, segments: string[]): SchemaNode | null {
+  let node: SchemaNode = root;
+  for (const segment of segments) {
+    if (node.type === "object") {
+      const child: SchemaNode | undefined = node.fields[segment];
+      if (!child) return null;
+      node = child;
+    } else if (node.type === "record") {
+      node = node.values;
+    } else if (node.type === "array" && /^\d+$/.test(segment)) {
+      node = node.items;
+    } else {
+      return null;
+    }
+  }
+  return node;
+}
+
+export function parseValue(node: SchemaNode, input: string): unknown {
+  switch (node.type) {
+    case "number": {
+      const value = Number(input.trim());
+      if (input.trim() === "" || Number.isNaN(value)) {
+        throw new TypeError(`"${input}" is not a number`);
+      }
+      return value;
+    }
+    case "boolean": {
+      const value = input.trim().toLowerCase();
+      if (["true", "yes", "on", "1"].includes(value)) return true;
+      if (["false", "no", "off", "0"].includes(value)) return false;
+      throw new TypeError(`"${input}" is not true or false`);
+    }
+    case "string":
+      return input;
+    default: {
+      try {
+        return JSON.parse(input);
+      } catch {
+        if (node.type === "array" && node.items.type === "string") {
+          return input.split(",").map((item) => item.trim()).filter(Boolean);
+        }
+        throw new TypeError(`expected JSON for a ${node.type === "array" ? "list" : "object"} value`);
+      }
+    }
+  }
+}
+
+export function getAtPath(value: unknown, segments: string[]): unknown {
+  let current = value;
+  for (const segment of segments) {
+    if (Array.isArray(current)) {
+      current = current[Number(segment)];
+    } else if (isPlainObject(current)) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+export function setAtPath(value: unknown, segments: string[], next: unknown): void {
+  const parent = getAtPath(value, segments.slice(0, -1));
+  const key = segments[segments.length - 1];
+  if (key === undefined) return;
+
+  if (Array.isArray(parent)) {
+    const index = Number(key);
+    const limit = next === undefined ? parent.length - 1 : parent.length;
+    if (!/^\d+$/.test(key) || index > limit) {
+      throw new RangeError(`index ${key} is out of range (the list has ${parent.length} item(s))`);
+    }
+    if (next === undefined) {
+      parent.splice(index, 1);
+    } else {
+      parent[index] = next;
+    }
+  } else if (isPlainObject(parent)) {
+    if (next === undefined) {
+      delete parent[key];
+    } else {
+      parent[key] = next;
+    }
+  } else {
+    throw new TypeError(`${joinPath(segments.slice(0, -1))} does not exist`);
+  }
+}
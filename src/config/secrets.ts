@@ -0,0 +1,56 @@
+import { readFileSync } from "fs";
+import { maskNode } from "./schema.ts";
+import { configSchema, type Config } from "./settings.ts";
+import { SecretError, getKeystoreSecret, isSecretRef, SMTP_PASS_SECRET } from "./keystore.ts";
+
+export {
+  SecretError,
+  SMTP_PASS_SECRET,
+  isSecretRef,
+  setKeystoreSecret,
+  getKeystoreSecret,
+  deleteKeystoreSecret,
+  listKeystoreSecrets,
+  storeSecret,
+} from "./keystore.ts";
+
+const MASK = "********";
+
+export function resolveSecret(value: string): string {
+  if (value.startsWith("env:")) {
+    const name = value.slice(4);
+    const resolved = process.env[name];
+    if (resolved === undefined) {
+      throw new SecretError(`Environment variable ${name} is not set`);
+    }
+    return resolved;
+  }
+
+  if (value.startsWith("file:")) {
+    const path = value.slice(5);
+    try {
+      return readFileSync(path, "utf-8").trim();
+    } catch (error) {
+      throw new SecretError(`Could not read secret file ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (value.startsWith("keystore:")) {
+    return getKeystoreSecret(value.slice(9));
+  }
+
+  return value;
+}
+
+export function secretNameForPath(path: string): string {
+  return path === "email.smtp.pass" ? SMTP_PASS_SECRET : path.replace(/[^\w.-]/g, "-");
+}
+
+export function maskSecret(value: string): string {
+  if (!value || isSecretRef(value)) return value;
+  return MASK;
+}
+
+export function maskConfig(config: Config): Config {
+  return maskNode(configSchema, config, maskSecret) as Config;
+}
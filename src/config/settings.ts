@@ -1,11 +1,62 @@
-import { existsSync, readFileSync, writeFileSync, mkdirSync, rmSync } from "fs";
-import { homedir } from "os";
-import { join } from "path";
+import { existsSync, readFileSync, writeFileSync, mkdirSync, rmSync, copyFileSync, chmodSync } from "fs";
+import {
+  getConfigFile,
+  getSessionDir,
+  ensureConfigDir,
+} from "./paths.ts";
+import { setKeystoreSecret } from "./keystore.ts";
+import {
+  validateNode,
+  mergeDefaults,
+  splitPath,
+  getSchemaNode,
+  parseValue,
+  getAtPath,
+  setAtPath,
+  type ConfigIssue,
+  type SchemaFor,
+  type SchemaNode,
+} from "./schema.ts";
+import {
+  CONFIG_SCHEMA_VERSION,
+  getConfigVersion,
+  getPendingMigrations,
+  migrateConfig,
+  type Migration,
+} from "./migrations.ts";
+import {
+  REPORT_SECTIONS,
+  DEFAULT_REPORT_OPTIONS,
+  DEFAULT_ALERT_SEVERITIES,
+  type AlertType,
+  type ReportSection,
+  type ReportLimits,
+} from "../report/generator.ts";
+import { DEFAULT_PRIVACY_RULES, MASK_MODES, type PrivacyRules } from "../report/redact.ts";
+import { DEFAULT_DIGEST_SCHEDULE, type DigestSchedule } from "../report/digest.ts";
+import { ALERT_METRICS, COMPARATORS, SEVERITIES, type AlertRule, type Severity } from "../alerts/rules.ts";
+import { DEFAULT_DISK_ALERTS, type DiskAlertSettings } from "../alerts/disks.ts";
+import { ANOMALY_METRICS, DEFAULT_ANOMALY_SETTINGS, type AnomalySettings } from "../alerts/baseline.ts";
+import { DEFAULT_ESCALATION, type EscalationSettings } from "../alerts/ack.ts";
+import { DURATION_PATTERN } from "../utils/time.ts";
+import {
+  DEFAULT_QUIET_HOURS,
+  QUIET_ACTIONS,
+  TIME_OF_DAY_PATTERN,
+  type QuietHours,
+} from "../notify/schedule.ts";
+import { NOTIFICATION_CHANNELS, type NotificationRoute } from "../notify/routing.ts";
+import { DEFAULT_WEBHOOK, type WebhookSettings } from "../notify/webhook.ts";
+import { DEFAULT_NTFY, type NtfySettings } from "../notify/ntfy.ts";
+import { DEFAULT_GOTIFY, type GotifySettings } from "../notify/gotify.ts";
+import { REPORT_TRIGGERS } from "../history/triggers.ts";
 
 export interface Config {
+  schemaVersion: number;
   whatsapp: {
     phoneNumber: string;
     enabled: boolean;
+    minSeverity: Severity;
   };
   email: {
     enabled: boolean;
@@ -17,10 +68,15 @@ export interface Config {
       pass: string;
     };
     to: string;
+    minSeverity: Severity;
   };
+  webhook: WebhookSettings;
+  ntfy: NtfySettings;
+  gotify: GotifySettings;
   monitoring: {
     intervalMs: number;
     reportOnLogin: boolean;
+    reportOnUnlock: boolean;
     reportOnSuspiciousActivity: boolean;
   };
   browserHistory: {
@@ -33,34 +89,361 @@ export interface Config {
     cpuThreshold: number;
     ramThreshold: number;
     diskThreshold: number;
+    disks: DiskAlertSettings;
     failedLoginAttempts: number;
+    sampleIntervalMs: number;
+    cooldownMs: number;
+    notifyResolved: boolean;
+    rules: AlertRule[];
+    bruteForce: {
+      enabled: boolean;
+      window: string;
+    };
+    anomaly: AnomalySettings;
+    escalation: EscalationSettings;
+  };
+  quietHours: QuietHours;
+  notifications: {
+    severities: Record<AlertType, Severity>;
+    routes: NotificationRoute[];
+    log: {
+      enabled: boolean;
+      minSeverity: Severity;
+    };
+  };
+  report: {
+    sections: ReportSection[];
+    limits: ReportLimits;
+    diffOnly: boolean;
+    scheduledTemplate: string;
+  };
+  privacy: PrivacyRules;
+  digest: DigestSchedule;
+  history: {
+    enabled: boolean;
+    retentionDays: number;
+    downsampleAfterDays: number;
   };
 }
 
-const CONFIG_DIR = join(homedir(), ".config", "system-monitor");
-const CONFIG_FILE = join(CONFIG_DIR, "config.json");
-const SESSION_DIR = join(CONFIG_DIR, "whatsapp-session");
-
-export function getConfigDir(): string {
-  return CONFIG_DIR;
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: ConfigIssue[] = []
+  ) {
+    super(message);
+    this.name = "ConfigError";
+  }
 }
 
-export function getSessionDir(): string {
-  return SESSION_DIR;
-}
+const percent = { type: "number", min: 0, max: 100 } as const;
+const count = { type: "number", integer: true, min: 0 } as const;
+const phoneNumber = {
+  type: "string",
+  pattern: /^(\+?[0-9 -]*|[0-9]+@c\.us)$/,
+  hint: "expected a phone number with country code",
+} as const;
+
+export const configSchema: SchemaFor<Config> = {
+  type: "object",
+  fields: {
+    schemaVersion: { type: "number", integer: true, min: 1 },
+    whatsapp: {
+      type: "object",
+      fields: {
+        phoneNumber,
+        enabled: { type: "boolean" },
+        minSeverity: { type: "string", enum: SEVERITIES },
+      },
+    },
+    email: {
+      type: "object",
+      fields: {
+        enabled: { type: "boolean" },
+        smtp: {
+          type: "object",
+          fields: {
+            host: { type: "string" },
+            port: { type: "number", integer: true, min: 1, max: 65535 },
+            secure: { type: "boolean" },
+            user: { type: "string" },
+            pass: { type: "string", secret: true },
+          },
+        },
+        to: { type: "string" },
+        minSeverity: { type: "string", enum: SEVERITIES },
+      },
+    },
+    webhook: {
+      type: "object",
+      fields: {
+        enabled: { type: "boolean" },
+        urls: {
+          type: "array",
+          items: { type: "string", pattern: /^https?:\/\/\S+$/, hint: "expected an http:// or https:// URL" },
+        },
+        secret: { type: "string", secret: true },
+        headers: { type: "record", values: { type: "string", secret: true } },
+        timeout: { type: "string", pattern: DURATION_PATTERN, hint: "expected a duration like 5s or 30s" },
+        minSeverity: { type: "string", enum: SEVERITIES },
+      },
+    },
+    ntfy: {
+      type: "object",
+      fields: {
+        enabled: { type: "boolean" },
+        server: { type: "string", pattern: /^https?:\/\/\S+$/, hint: "expected an http:// or https:// URL" },
+        topic: { type: "string", pattern: /^[\w-]{0,64}$/, hint: "expected letters, digits, '_' or '-'" },
+        token: { type: "string", secret: true },
+        minSeverity: { type: "string", enum: SEVERITIES },
+      },
+    },
+    gotify: {
+      type: "object",
+      fields: {
+        enabled: { type: "boolean" },
+        server: { type: "string", pattern: /^(https?:\/\/\S+)?$/, hint: "expected an http:// or https:// URL" },
+        token: { type: "string", secret: true },
+        minSeverity: { type: "string", enum: SEVERITIES },
+      },
+    },
+    monitoring: {
+      type: "object",
+      fields: {
+        intervalMs: { type: "number", integer: true, min: 1000 },
+        reportOnLogin: { type: "boolean" },
+        reportOnUnlock: { type: "boolean" },
+        reportOnSuspiciousActivity: { type: "boolean" },
+      },
+    },
+    browserHistory: {
+      type: "object",
+      fields: {
+        startHour: { type: "number", integer: true, min: 0, max: 23 },
+        startMinute: { type: "number", integer: true, min: 0, max: 59 },
+        endHour: { type: "number", integer: true, min: 0, max: 23 },
+        endMinute: { type: "number", integer: true, min: 0, max: 59 },
+      },
+    },
+    alerts: {
+      type: "object",
+      fields: {
+        cpuThreshold: percent,
+        ramThreshold: percent,
+        diskThreshold: percent,
+        disks: {
+          type: "object",
+          fields: {
+            include: { type: "array", items: { type: "string" } },
+            exclude: { type: "array", items: { type: "string" } },
+            excludeTypes: { type: "array", items: { type: "string" } },
+            thresholds: { type: "record", values: percent },
+            inodeThreshold: percent,
+            forecastDays: { type: "number", min: 0 },
+            forecastWindow: { type: "string", pattern: DURATION_PATTERN, hint: "expected a duration like 24h or 7d" },
+          },
+        },
+        failedLoginAttempts: { type: "number", integer: true, min: 1 },
+        sampleIntervalMs: { type: "number", integer: true, min: 5000 },
+        cooldownMs: { type: "number", integer: true, min: 0 },
+        notifyResolved: { type: "boolean" },
+        rules: {
+          type: "array",
+          items: {
+            type: "object",
+            fields: {
+              name: { type: "string", optional: true },
+              metric: { type: "string", enum: ALERT_METRICS },
+              mount: { type: "string", optional: true },
+              comparator: { type: "string", enum: COMPARATORS },
+              threshold: { type: "number" },
+              for: {
+                type: "string",
+                optional: true,
+                pattern: DURATION_PATTERN,
+                hint: "expected a duration like 30s, 5m or 1h",
+              },
+              severity: { type: "string", enum: SEVERITIES, optional: true },
+              message: { type: "string", optional: true },
+            },
+          },
+        },
+        bruteForce: {
+          type: "object",
+          fields: {
+            enabled: { type: "boolean" },
+            window: { type: "string", pattern: DURATION_PATTERN, hint: "expected a duration like 5m or 1h" },
+          },
+        },
+        anomaly: {
+          type: "object",
+          fields: {
+            enabled: { type: "boolean" },
+            metrics: { type: "array", items: { type: "string", enum: ANOMALY_METRICS } },
+            zScore: { type: "number", min: 0.5 },
+            warmupDays: { type: "number", integer: true, min: 1 },
+            baselineDays: { type: "number", integer: true, min: 7 },
+            minSamples: { type: "number", integer: true, min: 1 },
+            for: { type: "string", pattern: DURATION_PATTERN, hint: "expected a duration like 5m or 1h" },
+          },
+        },
+        escalation: {
+          type: "object",
+          fields: {
+            enabled: { type: "boolean" },
+            minSeverity: { type: "string", enum: SEVERITIES },
+            resendAfter: { type: "string", pattern: DURATION_PATTERN, hint: "expected a duration like 10m or 1h" },
+            maxResends: count,
+            email: { type: "boolean" },
+            phoneNumber,
+          },
+        },
+      },
+    },
+    quietHours: {
+      type: "object",
+      fields: {
+        enabled: { type: "boolean" },
+        action: { type: "string", enum: QUIET_ACTIONS },
+        windows: {
+          type: "array",
+          items: {
+            type: "object",
+            fields: {
+              days: { type: "array", items: { type: "number", integer: true, min: 0, max: 6 } },
+              start: { type: "string", pattern: TIME_OF_DAY_PATTERN, hint: "expected a time like 22:00" },
+              end: { type: "string", pattern: TIME_OF_DAY_PATTERN, hint: "expected a time like 07:00" },
+              allow: { type: "string", enum: SEVERITIES },
+            },
+          },
+        },
+      },
+    },
+    notifications: {
+      type: "object",
+      fields: {
+        severities: {
+          type: "object",
+          fields: {
+            login: { type: "string", enum: SEVERITIES },
+            suspicious: { type: "string", enum: SEVERITIES },
+            threshold: { type: "string", enum: SEVERITIES },
+            "brute-force": { type: "string", enum: SEVERITIES },
+            anomaly: { type: "string", enum: SEVERITIES },
+            resolved: { type: "string", enum: SEVERITIES },
+          },
+        },
+        routes: {
+          type: "array",
+          items: {
+            type: "object",
+            fields: {
+              triggers: { type: "array", optional: true, items: { type: "string", enum: REPORT_TRIGGERS } },
+              minSeverity: { type: "string", enum: SEVERITIES, optional: true },
+              channels: { type: "array", items: { type: "string", enum: NOTIFICATION_CHANNELS } },
+            },
+          },
+        },
+        log: {
+          type: "object",
+          fields: {
+            enabled: { type: "boolean" },
+            minSeverity: { type: "string", enum: SEVERITIES },
+          },
+        },
+      },
+    },
+    report: {
+      type: "object",
+      fields: {
+        sections: { type: "array", items: { type: "string", enum: REPORT_SECTIONS } },
+        limits: {
+          type: "object",
+          fields: {
+            failedLogins: count,
+            processes: count,
+            connections: count,
+            programs: count,
+            browserEntries: count,
+            titleLength: count,
+            urlLength: count,
+            changes: count,
+            changeLength: count,
+          },
+        },
+        diffOnly: { type: "boolean" },
+        scheduledTemplate: {
+          type: "string",
+          pattern: /^[\w-]*$/,
+          hint: "expected a template name from the templates directory",
+        },
+      },
+    },
+    privacy: {
+      type: "object",
+      fields: {
+        stripQueryStrings: { type: "boolean" },
+        maskDomains: {
+          type: "array",
+          items: { type: "string", pattern: /^(\*\.)?[\w.-]+$/, hint: "expected a domain like example.com" },
+        },
+        maskMode: { type: "string", enum: MASK_MODES },
+        replacements: {
+          type: "array",
+          items: {
+            type: "object",
+            fields: {
+              pattern: { type: "string", regex: true },
+              replacement: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    digest: {
+      type: "object",
+      fields: {
+        daily: { type: "boolean" },
+        weekly: { type: "boolean" },
+        hour: { type: "number", integer: true, min: 0, max: 23 },
+        weekday: { type: "number", integer: true, min: 0, max: 6 },
+      },
+    },
+    history: {
+      type: "object",
+      fields: {
+        enabled: { type: "boolean" },
+        retentionDays: { type: "number", integer: true, min: 1 },
+        downsampleAfterDays: { type: "number", integer: true, min: 1 },
+      },
+    },
+  },
+};
+
+export {
+  BASE_CONFIG_DIR,
+  setConfigDir,
+  getConfigDir,
+  getConfigFile,
+  getSessionDir,
+  ensureConfigDir,
+} from "./paths.ts";
 
 export function clearSessionDir(): void {
-  if (existsSync(SESSION_DIR)) {
-    rmSync(SESSION_DIR, { recursive: true, force: true });
+  const sessionDir = getSessionDir();
+  if (existsSync(sessionDir)) {
+    rmSync(sessionDir, { recursive: true, force: true });
   }
-  mkdirSync(SESSION_DIR, { recursive: true });
+  mkdirSync(sessionDir, { recursive: true });
 }
 
 export function getDefaultConfig(): Config {
   return {
+    schemaVersion: CONFIG_SCHEMA_VERSION,
     whatsapp: {
       phoneNumber: "",
       enabled: false,
+      minSeverity: "info",
     },
     email: {
       enabled: false,
@@ -72,10 +455,15 @@ export function getDefaultConfig(): Config {
         pass: "",
       },
       to: "",
+      minSeverity: "info",
     },
+    webhook: structuredClone(DEFAULT_WEBHOOK),
+    ntfy: { ...DEFAULT_NTFY },
+    gotify: { ...DEFAULT_GOTIFY },
     monitoring: {
       intervalMs: 3600000,
       reportOnLogin: true,
+      reportOnUnlock: true,
       reportOnSuspiciousActivity: true,
     },
     browserHistory: {
@@ -88,36 +476,205 @@ export function getDefaultConfig(): Config {
       cpuThreshold: 90,
       ramThreshold: 90,
       diskThreshold: 90,
+      disks: structuredClone(DEFAULT_DISK_ALERTS),
       failedLoginAttempts: 3,
+      sampleIntervalMs: 60000,
+      cooldownMs: 3600000,
+      notifyResolved: true,
+      rules: [],
+      bruteForce: {
+        enabled: true,
+        window: "10m",
+      },
+      anomaly: structuredClone(DEFAULT_ANOMALY_SETTINGS),
+      escalation: { ...DEFAULT_ESCALATION },
+    },
+    quietHours: structuredClone(DEFAULT_QUIET_HOURS),
+    notifications: {
+      severities: { ...DEFAULT_ALERT_SEVERITIES },
+      routes: [],
+      log: {
+        enabled: true,
+        minSeverity: "info",
+      },
+    },
+    report: {
+      ...structuredClone(DEFAULT_REPORT_OPTIONS),
+      scheduledTemplate: "",
+    },
+    privacy: structuredClone(DEFAULT_PRIVACY_RULES),
+    digest: { ...DEFAULT_DIGEST_SCHEDULE },
+    history: {
+      enabled: true,
+      retentionDays: 90,
+      downsampleAfterDays: 7,
     },
   };
 }
 
-export function ensureConfigDir(): void {
-  if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true });
+export function validateConfig(config: unknown): ConfigIssue[] {
+  return validateNode(configSchema, config, "");
+}
+
+export function getSettingNode(path: string): SchemaNode {
+  const segments = splitPath(path);
+  const node = segments.length > 0 ? getSchemaNode(configSchema, segments) : null;
+  if (!node) {
+    throw new ConfigError(`Unknown setting "${path}"`);
+  }
+  return node;
+}
+
+export function getConfigValue(config: Config, path: string): unknown {
+  getSettingNode(path);
+  return getAtPath(config, splitPath(path));
+}
+
+function applyConfigValue(config: Config, path: string, value: unknown): Config {
+  const updated = structuredClone(config);
+  try {
+    setAtPath(updated, splitPath(path), value);
+  } catch (error) {
+    throw new ConfigError(`Cannot update ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  const issues = validateConfig(updated);
+  if (issues.length > 0) {
+    throw new ConfigError(`Cannot update ${path}`, issues);
+  }
+  return updated;
+}
+
+export function setConfigValue(config: Config, path: string, input: string): Config {
+  const node = getSettingNode(path);
+  let value: unknown;
+  try {
+    value = parseValue(node, input);
+  } catch (error) {
+    throw new ConfigError(`Invalid value for ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  return applyConfigValue(config, path, value);
+}
+
+export function unsetConfigValue(config: Config, path: string): Config {
+  getSettingNode(path);
+  const fallback = getAtPath(getDefaultConfig(), splitPath(path));
+  return applyConfigValue(config, path, fallback === undefined ? undefined : structuredClone(fallback));
+}
+
+function readConfigFile(): Record<string, any> {
+  const file = getConfigFile();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new ConfigError(
+      `Could not read ${file}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(`${file} must contain a JSON object`);
   }
-  if (!existsSync(SESSION_DIR)) {
-    mkdirSync(SESSION_DIR, { recursive: true });
+  return raw as Record<string, any>;
+}
+
+function backupConfigFile(version: number): string {
+  const file = getConfigFile();
+  let backup = `${file}.v${version}.bak`;
+  if (existsSync(backup)) {
+    backup = `${file}.v${version}.${Date.now()}.bak`;
   }
+  copyFileSync(file, backup);
+  chmodSync(backup, 0o600);
+  return backup;
+}
+
+export interface ConfigInspection {
+  file: string;
+  exists: boolean;
+  version: number | null;
+  pendingMigrations: Migration[];
+  issues: ConfigIssue[];
+}
+
+export function inspectConfig(): ConfigInspection {
+  const file = getConfigFile();
+  const inspection: ConfigInspection = {
+    file,
+    exists: existsSync(file),
+    version: null,
+    pendingMigrations: [],
+    issues: [],
+  };
+  if (!inspection.exists) return inspection;
+
+  try {
+    const raw = readConfigFile();
+    const version = getConfigVersion(raw);
+    inspection.version = version;
+    if (version > CONFIG_SCHEMA_VERSION) {
+      inspection.issues.push({
+        path: "schemaVersion",
+        message: `written by a newer version (${version}, this build supports ${CONFIG_SCHEMA_VERSION})`,
+      });
+      return inspection;
+    }
+    inspection.pendingMigrations = getPendingMigrations(version);
+    const { config } = migrateConfig(raw);
+    inspection.issues = validateConfig(mergeDefaults(getDefaultConfig(), config));
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    inspection.issues.push({ path: "(file)", message: error.message });
+  }
+  return inspection;
 }
 
 export function loadConfig(): Config {
   ensureConfigDir();
-  if (existsSync(CONFIG_FILE)) {
-    try {
-      const data = readFileSync(CONFIG_FILE, "utf-8");
-      return { ...getDefaultConfig(), ...JSON.parse(data) };
-    } catch {
-      return getDefaultConfig();
+  const file = getConfigFile();
+  if (!existsSync(file)) {
+    return getDefaultConfig();
+  }
+
+  const raw = readConfigFile();
+  const version = getConfigVersion(raw);
+  if (version > CONFIG_SCHEMA_VERSION) {
+    throw new ConfigError(
+      `${file} was written by a newer version of denoo (schema ${version}, supported ${CONFIG_SCHEMA_VERSION})`
+    );
+  }
+
+  const { config: migrated, applied, secrets } = migrateConfig(raw);
+  const config = mergeDefaults(getDefaultConfig(), migrated);
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigError(`Invalid configuration in ${file}`, issues);
+  }
+
+  if (applied.length > 0) {
+    const backup = backupConfigFile(version);
+    for (const [name, value] of Object.entries(secrets)) {
+      setKeystoreSecret(name, value);
+    }
+    saveConfig(config);
+    console.error(`[OK] Migrated configuration from schema ${version} to ${CONFIG_SCHEMA_VERSION} (backup: ${backup})`);
+    for (const migration of applied) {
+      console.error(`  - ${migration.description}`);
+      if (migration.note) console.error(`    ${migration.note}`);
     }
   }
-  return getDefaultConfig();
+
+  return config;
 }
 
 export function saveConfig(config: Config): void {
   ensureConfigDir();
-  writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+  const file = getConfigFile();
+  writeFileSync(
+    file,
+    JSON.stringify({ ...config, schemaVersion: CONFIG_SCHEMA_VERSION }, null, 2),
+    { mode: 0o600 }
+  );
+  chmodSync(file, 0o600);
 }
 
 export function updateConfig(updates: Partial<Config>): Config {
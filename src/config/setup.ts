@@ -0,0 +1,86 @@
+import { readFileSync } from "fs";
+import { mergeDefaults } from "./schema.ts";
+import {
+  getDefaultConfig,
+  setConfigValue,
+  validateConfig,
+  ConfigError,
+  type Config,
+} from "./settings.ts";
+
+export interface SetupAnswers {
+  from?: string;
+  phone?: string;
+  emailTo?: string;
+  smtpUser?: string;
+  smtpPass?: string;
+  smtpHost?: string;
+  smtpPort?: string;
+  smtpSecure?: string;
+  ntfyTopic?: string;
+  ntfyServer?: string;
+  ntfyToken?: string;
+  gotifyUrl?: string;
+  gotifyToken?: string;
+  interval?: string;
+}
+
+const SETTINGS: Array<{ answer: keyof SetupAnswers; env: string; path: string }> = [
+  { answer: "phone", env: "DENOO_WHATSAPP_PHONE", path: "whatsapp.phoneNumber" },
+  { answer: "emailTo", env: "DENOO_EMAIL_TO", path: "email.to" },
+  { answer: "smtpUser", env: "DENOO_SMTP_USER", path: "email.smtp.user" },
+  { answer: "smtpPass", env: "DENOO_SMTP_PASS", path: "email.smtp.pass" },
+  { answer: "smtpHost", env: "DENOO_SMTP_HOST", path: "email.smtp.host" },
+  { answer: "smtpPort", env: "DENOO_SMTP_PORT", path: "email.smtp.port" },
+  { answer: "smtpSecure", env: "DENOO_SMTP_SECURE", path: "email.smtp.secure" },
+  { answer: "ntfyTopic", env: "DENOO_NTFY_TOPIC", path: "ntfy.topic" },
+  { answer: "ntfyServer", env: "DENOO_NTFY_SERVER", path: "ntfy.server" },
+  { answer: "ntfyToken", env: "DENOO_NTFY_TOKEN", path: "ntfy.token" },
+  { answer: "gotifyUrl", env: "DENOO_GOTIFY_URL", path: "gotify.server" },
+  { answer: "gotifyToken", env: "DENOO_GOTIFY_TOKEN", path: "gotify.token" },
+  { answer: "interval", env: "DENOO_INTERVAL_MS", path: "monitoring.intervalMs" },
+];
+
+export const SETUP_ENV_VARS = SETTINGS.map((s) => s.env);
+
+function readAnswersFile(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new ConfigError(`Could not read answers file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function buildSetupConfig(answers: SetupAnswers): Config {
+  let config = getDefaultConfig();
+
+  if (answers.from) {
+    config = mergeDefaults(config, readAnswersFile(answers.from));
+    const issues = validateConfig(config);
+    if (issues.length > 0) {
+      throw new ConfigError(`Invalid answers in ${answers.from}`, issues);
+    }
+  }
+
+  for (const setting of SETTINGS) {
+    const value = answers[setting.answer] ?? process.env[setting.env];
+    if (value !== undefined && value !== "") {
+      config = setConfigValue(config, setting.path, value);
+    }
+  }
+
+  if (answers.phone || process.env.DENOO_WHATSAPP_PHONE) {
+    config.whatsapp.enabled = true;
+  }
+  if (answers.emailTo || process.env.DENOO_EMAIL_TO) {
+    config.email.enabled = true;
+  }
+  if (answers.ntfyTopic || process.env.DENOO_NTFY_TOPIC) {
+    config.ntfy.enabled = true;
+  }
+  if (answers.gotifyUrl || process.env.DENOO_GOTIFY_URL) {
+    config.gotify.enabled = true;
+  }
+
+  return config;
+}
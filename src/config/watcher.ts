@@ -0,0 +1,110 @@
+import { watch, type FSWatcher } from "fs";
+import { basename } from "path";
+import {
+  loadConfig,
+  getConfigDir,
+  getConfigFile,
+  ConfigError,
+  type Config,
+} from "./settings.ts";
+import { maskConfig } from "./secrets.ts";
+
+export interface ConfigChange {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+type ReloadCallback = (config: Config, changes: ConfigChange[]) => void | Promise<void>;
+
+const RELOAD_DEBOUNCE_MS = 500;
+
+let configWatcher: FSWatcher | null = null;
+let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+let currentConfig: Config | null = null;
+let onReload: ReloadCallback | null = null;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function diffConfig(before: unknown, after: unknown, prefix: string = ""): ConfigChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) =>
+      diffConfig(before[key], after[key], prefix ? `${prefix}.${key}` : key)
+    );
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path: prefix, from: before, to: after }];
+}
+
+export function hasChanged(changes: ConfigChange[], prefix: string): boolean {
+  return changes.some((c) => c.path === prefix || c.path.startsWith(`${prefix}.`));
+}
+
+export async function reloadConfig(reason: string): Promise<void> {
+  if (!currentConfig || !onReload) return;
+
+  let next: Config;
+  try {
+    next = loadConfig();
+  } catch (error) {
+    console.error(`[RELOAD] ${reason}, but the new configuration was rejected - keeping current settings`);
+    if (error instanceof ConfigError) {
+      console.error(`  ${error.message}`);
+      for (const issue of error.issues) {
+        console.error(`  - ${issue.path}: ${issue.message}`);
+      }
+    } else {
+      console.error(error);
+    }
+    return;
+  }
+
+  const changes = diffConfig(maskConfig(currentConfig), maskConfig(next));
+  currentConfig = next;
+  if (changes.length === 0) return;
+
+  console.log(`[RELOAD] ${reason} - ${changes.length} setting(s) changed:`);
+  for (const change of changes) {
+    console.log(`  - ${change.path}: ${JSON.stringify(change.from)} -> ${JSON.stringify(change.to)}`);
+  }
+  await onReload(next, changes);
+}
+
+export function watchConfig(initial: Config, callback: ReloadCallback): void {
+  currentConfig = initial;
+  onReload = callback;
+
+  const fileName = basename(getConfigFile());
+  try {
+    configWatcher = watch(getConfigDir(), (_event, changed) => {
+      if (changed !== fileName) return;
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        reloadTimer = null;
+        reloadConfig("Config file changed").catch((error) =>
+          console.error("[RELOAD] Failed to apply configuration:", error)
+        );
+      }, RELOAD_DEBOUNCE_MS);
+    });
+    console.log(`[WATCH] Watching ${getConfigFile()} for changes...`);
+  } catch (error) {
+    console.error("Failed to watch config file:", error);
+  }
+}
+
+export function stopWatchingConfig(): void {
+  if (reloadTimer) {
+    clearTimeout(reloadTimer);
+    reloadTimer = null;
+  }
+  if (configWatcher) {
+    configWatcher.close();
+    configWatcher = null;
+  }
+  onReload = null;
+}
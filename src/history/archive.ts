@@ -0,0 +1,102 @@
+import type { FullReport } from "../report/generator.ts";
+import { serializeReport, type SerializedReport } from "../report/serialize.ts";
+import { openHistory } from "./store.ts";
+import type { ReportTrigger } from "./triggers.ts";
+
+export interface DeliveryResult {
+  channel: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface ArchivedReportSummary {
+  id: number;
+  ts: number;
+  trigger: ReportTrigger;
+  deliveries: DeliveryResult[];
+  preview: string;
+}
+
+export interface ArchivedReport extends ArchivedReportSummary {
+  text: string;
+  report: SerializedReport | null;
+}
+
+interface ReportRow {
+  id: number;
+  ts: number;
+  trigger: ReportTrigger;
+  text: string;
+  report: string | null;
+  deliveries: string;
+}
+
+function previewOf(text: string): string {
+  return text.split("\n").find((line) => line.trim())?.trim().substring(0, 60) ?? "";
+}
+
+export function archiveReport(
+  trigger: ReportTrigger,
+  text: string,
+  report: FullReport | undefined,
+  deliveries: DeliveryResult[]
+): number {
+  const result = openHistory()
+    .prepare("INSERT INTO reports (ts, trigger, text, report, deliveries) VALUES (?, ?, ?, ?, ?)")
+    .run(
+      (report?.generatedAt ?? new Date()).getTime(),
+      trigger,
+      text,
+      report ? JSON.stringify(serializeReport(report)) : null,
+      JSON.stringify(deliveries)
+    );
+  return Number(result.lastInsertRowid);
+}
+
+export function listArchivedReports(
+  options: { from?: Date; trigger?: ReportTrigger; limit?: number } = {}
+): ArchivedReportSummary[] {
+  const rows = openHistory()
+    .query(
+      `SELECT id, ts, trigger, text, deliveries FROM reports
+       WHERE ts >= ? AND (? IS NULL OR trigger = ?)
+       ORDER BY ts DESC, id DESC LIMIT ?`
+    )
+    .all(options.from?.getTime() ?? 0, options.trigger ?? null, options.trigger ?? null, options.limit ?? -1) as ReportRow[];
+
+  return rows.map((row) => ({
+    id: row.id,
+    ts: row.ts,
+    trigger: row.trigger,
+    deliveries: JSON.parse(row.deliveries),
+    preview: previewOf(row.text),
+  }));
+}
+
+export function getArchivedReport(id: number): ArchivedReport | null {
+  const row = openHistory()
+    .query("SELECT id, ts, trigger, text, report, deliveries FROM reports WHERE id = ?")
+    .get(id) as ReportRow | null;
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    ts: row.ts,
+    trigger: row.trigger,
+    text: row.text,
+    report: row.report ? JSON.parse(row.report) : null,
+    deliveries: JSON.parse(row.deliveries),
+    preview: previewOf(row.text),
+  };
+}
+
+export function pruneArchivedReports(before: Date): number {
+  return openHistory().prepare("DELETE FROM reports WHERE ts < ?").run(before.getTime()).changes;
+}
+
+export function formatDeliveries(deliveries: DeliveryResult[]): string {
+  if (deliveries.length === 0) return "not sent";
+  return deliveries
+    .map((d) => `${d.channel} ${d.ok ? "ok" : `FAILED${d.error ? ` (${d.error})` : ""}`}`)
+    .join(", ");
+}
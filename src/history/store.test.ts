@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setConfigDir } from "../config/paths.ts";
+import { closeHistory, getBaseline, maintainHistory, openHistory } from "./store.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 14, 30, 0).getTime();
+
+beforeEach(() => {
+  setConfigDir(mkdtempSync(join(tmpdir(), "denoo-history-")));
+});
+
+afterEach(() => {
+  closeHistory();
+});
+
+describe("getBaseline", () => {
+  test("keeps within-hour variance after downsampling", () => {
+    const hour = new Date(2026, 9, 5, 14, 0, 0).getTime();
+    const insert = openHistory().prepare("INSERT INTO samples (ts, cpu, ram, disk, cpu_sq) VALUES (?, ?, 0, 0, ?)");
+    for (const [minute, cpu] of [[0, 10], [15, 30], [30, 10], [45, 30]] as const) {
+      insert.run(hour + minute * 60 * 1000, cpu, cpu * cpu);
+    }
+
+    const before = getBaseline("cpu", new Date(NOW - 28 * DAY_MS), new Date(NOW));
+    expect(maintainHistory({ retentionDays: 90, downsampleAfterDays: 7 }, NOW).downsampled).toBe(4);
+    const after = getBaseline("cpu", new Date(NOW - 28 * DAY_MS), new Date(NOW));
+
+    expect(before).toHaveLength(1);
+    expect(after).toEqual(before);
+    expect(after[0]).toMatchObject({ samples: 4, mean: 20, stddev: 10 });
+  });
+});
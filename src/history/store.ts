@@ -0,0 +1,402 @@
+import { Database } from "bun:sqlite";
+import { join } from "path";
+import { getConfigDir, ensureConfigDir } from "../config/paths.ts";
+import type { FullReport } from "../report/generator.ts";
+
+export type EventKind =
+  | "login"
+  | "failed_login"
+  | "session"
+  | "usb"
+  | "visit"
+  | "program"
+  | "process"
+  | "suspicious"
+  | "alert";
+
+export interface RetentionPolicy {
+  retentionDays: number;
+  downsampleAfterDays: number;
+}
+
+export interface MaintenanceResult {
+  downsampled: number;
+  deleted: number;
+}
+
+export interface MetricStats {
+  avg: number;
+  peak: number;
+}
+
+export interface SampleStats {
+  samples: number;
+  cpu: MetricStats;
+  ram: MetricStats;
+  disk: MetricStats;
+}
+
+export type SampleMetric = "cpu" | "ram" | "disk" | "connections" | "processes" | "sessions";
+
+export interface SamplePoint {
+  ts: number;
+  value: number;
+  peak: number;
+}
+
+export interface BaselineSlot {
+  slot: number;
+  samples: number;
+  mean: number;
+  stddev: number;
+}
+
+export interface HistoryEvent {
+  ts: number;
+  kind: EventKind;
+  subject: string;
+  detail: string;
+}
+
+export interface EventCount {
+  subject: string;
+  detail: string;
+  count: number;
+}
+
+const MIGRATIONS: string[] = [
+  `CREATE TABLE samples (
+     ts INTEGER NOT NULL,
+     cpu REAL NOT NULL,
+     ram REAL NOT NULL,
+     disk REAL NOT NULL
+   );
+   CREATE INDEX samples_ts ON samples (ts);
+   CREATE TABLE events (
+     ts INTEGER NOT NULL,
+     kind TEXT NOT NULL,
+     subject TEXT NOT NULL,
+     detail TEXT NOT NULL DEFAULT '',
+     UNIQUE (kind, subject, detail, ts)
+   );
+   CREATE INDEX events_kind_ts ON events (kind, ts);`,
+  `ALTER TABLE samples ADD COLUMN cpu_max REAL NOT NULL DEFAULT 0;
+   ALTER TABLE samples ADD COLUMN ram_max REAL NOT NULL DEFAULT 0;
+   ALTER TABLE samples ADD COLUMN disk_max REAL NOT NULL DEFAULT 0;
+   ALTER TABLE samples ADD COLUMN connections INTEGER NOT NULL DEFAULT 0;
+   ALTER TABLE samples ADD COLUMN processes INTEGER NOT NULL DEFAULT 0;
+   ALTER TABLE samples ADD COLUMN count INTEGER NOT NULL DEFAULT 1;
+   ALTER TABLE samples ADD COLUMN resolution INTEGER NOT NULL DEFAULT 0;
+   UPDATE samples SET cpu_max = cpu, ram_max = ram, disk_max = disk;
+   CREATE TABLE mount_samples (
+     ts INTEGER NOT NULL,
+     mount TEXT NOT NULL,
+     usage REAL NOT NULL,
+     usage_max REAL NOT NULL,
+     count INTEGER NOT NULL DEFAULT 1,
+     resolution INTEGER NOT NULL DEFAULT 0
+   );
+   CREATE INDEX mount_samples_ts ON mount_samples (ts);`,
+  `CREATE TABLE reports (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     ts INTEGER NOT NULL,
+     trigger TEXT NOT NULL,
+     text TEXT NOT NULL,
+     report TEXT,
+     deliveries TEXT NOT NULL DEFAULT '[]'
+   );
+   CREATE INDEX reports_ts ON reports (ts);`,
+  `ALTER TABLE samples ADD COLUMN sessions INTEGER NOT NULL DEFAULT 0;`,
+  `ALTER TABLE samples ADD COLUMN cpu_sq REAL NOT NULL DEFAULT 0;
+   ALTER TABLE samples ADD COLUMN ram_sq REAL NOT NULL DEFAULT 0;
+   ALTER TABLE samples ADD COLUMN disk_sq REAL NOT NULL DEFAULT 0;
+   ALTER TABLE samples ADD COLUMN connections_sq REAL NOT NULL DEFAULT 0;
+   ALTER TABLE samples ADD COLUMN processes_sq REAL NOT NULL DEFAULT 0;
+   ALTER TABLE samples ADD COLUMN sessions_sq REAL NOT NULL DEFAULT 0;
+   UPDATE samples SET cpu_sq = cpu * cpu, ram_sq = ram * ram, disk_sq = disk * disk,
+     connections_sq = connections * connections, processes_sq = processes * processes, sessions_sq = sessions * sessions;`,
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+let db: Database | null = null;
+let dbFile: string | null = null;
+
+export function getHistoryFile(): string {
+  return join(getConfigDir(), "history.db");
+}
+
+function migrate(database: Database): void {
+  const { user_version: version } = database.query("PRAGMA user_version").get() as { user_version: number };
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    database.transaction(() => {
+      database.exec(MIGRATIONS[i]!);
+      database.exec(`PRAGMA user_version = ${i + 1}`);
+    })();
+  }
+}
+
+export function openHistory(): Database {
+  const file = getHistoryFile();
+  if (db && dbFile === file) return db;
+
+  closeHistory();
+  ensureConfigDir();
+  db = new Database(file, { create: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  migrate(db);
+  dbFile = file;
+  return db;
+}
+
+export function closeHistory(): void {
+  db?.close();
+  db = null;
+  dbFile = null;
+}
+
+function toTimestamp(value: Date | string | null, fallback: number): number {
+  if (value === null) return fallback;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? fallback : time;
+}
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+export function recordReport(report: FullReport): void {
+  const database = openHistory();
+  const now = report.generatedAt.getTime();
+  const insertEvent = database.prepare(
+    "INSERT OR IGNORE INTO events (ts, kind, subject, detail) VALUES (?, ?, ?, ?)"
+  );
+
+  database.transaction(() => {
+    const { system } = report;
+    database
+      .prepare(
+        `INSERT INTO samples (ts, cpu, ram, disk, cpu_max, ram_max, disk_max, connections, processes, sessions,
+                              cpu_sq, ram_sq, disk_sq, connections_sq, processes_sq, sessions_sq)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        now,
+        system.cpu.usage,
+        system.memory.usagePercent,
+        system.disk.usagePercent,
+        system.cpu.usage,
+        system.memory.usagePercent,
+        system.disk.usagePercent,
+        system.network.connections.length,
+        system.processes.total,
+        report.sessions.length,
+        system.cpu.usage ** 2,
+        system.memory.usagePercent ** 2,
+        system.disk.usagePercent ** 2,
+        system.network.connections.length ** 2,
+        system.processes.total ** 2,
+        report.sessions.length ** 2
+      );
+
+    const insertMount = database.prepare(
+      "INSERT INTO mount_samples (ts, mount, usage, usage_max) VALUES (?, ?, ?, ?)"
+    );
+    for (const mount of system.disk.mounts) {
+      insertMount.run(now, mount.mount, mount.usagePercent, mount.usagePercent);
+    }
+
+    for (const login of report.recentLogins.filter((l) => l.type === "login")) {
+      if (login.loginTime) insertEvent.run(login.loginTime.getTime(), "login", login.user, login.host);
+    }
+    for (const login of report.failedLogins) {
+      insertEvent.run(toTimestamp(login.loginTime, now), "failed_login", login.user, login.host);
+    }
+    for (const session of report.sessions) {
+      insertEvent.run(toTimestamp(session.loginTime, now), "session", session.user, `${session.terminal} ${session.host}`.trim());
+    }
+    for (const item of report.activity.suspiciousActivity) {
+      insertEvent.run(now, "suspicious", item, "");
+    }
+    for (const name of report.activity.newProcesses) {
+      insertEvent.run(now, "process", name, "");
+    }
+    for (const device of report.activity.usbDevices) {
+      insertEvent.run(now, "usb", device.name, device.id);
+    }
+    for (const name of new Set((report.runningPrograms ?? []).map((p) => p.name))) {
+      insertEvent.run(now, "program", name, "");
+    }
+    if (report.browserHistory) {
+      const { thorium, chrome, edge } = report.browserHistory;
+      for (const entry of [...thorium, ...chrome, ...edge]) {
+        const domain = hostnameOf(entry.url);
+        if (domain) {
+          insertEvent.run(toTimestamp(entry.visitTime, now), "visit", domain, entry.url);
+        }
+      }
+    }
+  })();
+}
+
+export function recordEvent(kind: EventKind, subject: string, detail = "", at = new Date()): void {
+  openHistory()
+    .prepare("INSERT OR IGNORE INTO events (ts, kind, subject, detail) VALUES (?, ?, ?, ?)")
+    .run(at.getTime(), kind, subject, detail);
+}
+
+export function getSampleStats(from: Date, to: Date): SampleStats {
+  const row = openHistory()
+    .query(
+      `SELECT SUM(count) AS samples,
+              SUM(cpu * count) / SUM(count) AS cpuAvg, MAX(cpu_max) AS cpuPeak,
+              SUM(ram * count) / SUM(count) AS ramAvg, MAX(ram_max) AS ramPeak,
+              SUM(disk * count) / SUM(count) AS diskAvg, MAX(disk_max) AS diskPeak
+       FROM samples WHERE ts >= ? AND ts < ?`
+    )
+    .get(from.getTime(), to.getTime()) as Record<string, number | null>;
+
+  return {
+    samples: row.samples ?? 0,
+    cpu: { avg: row.cpuAvg ?? 0, peak: row.cpuPeak ?? 0 },
+    ram: { avg: row.ramAvg ?? 0, peak: row.ramPeak ?? 0 },
+    disk: { avg: row.diskAvg ?? 0, peak: row.diskPeak ?? 0 },
+  };
+}
+
+export function countEvents(
+  kind: EventKind,
+  from: Date,
+  to: Date,
+  options: { byDetail?: boolean; limit?: number } = {}
+): EventCount[] {
+  const detail = options.byDetail ? "detail" : "''";
+  return openHistory()
+    .query(
+      `SELECT subject, ${detail} AS detail, COUNT(*) AS count
+       FROM events WHERE kind = ? AND ts >= ? AND ts < ?
+       GROUP BY subject, ${detail}
+       ORDER BY count DESC, subject
+       LIMIT ?`
+    )
+    .all(kind, from.getTime(), to.getTime(), options.limit ?? -1) as EventCount[];
+}
+
+const SAMPLE_COLUMNS: Record<SampleMetric, { value: string; peak: string; square: string }> = {
+  cpu: { value: "cpu", peak: "cpu_max", square: "cpu_sq" },
+  ram: { value: "ram", peak: "ram_max", square: "ram_sq" },
+  disk: { value: "disk", peak: "disk_max", square: "disk_sq" },
+  connections: { value: "connections", peak: "connections", square: "connections_sq" },
+  processes: { value: "processes", peak: "processes", square: "processes_sq" },
+  sessions: { value: "sessions", peak: "sessions", square: "sessions_sq" },
+};
+
+export function querySamples(metric: SampleMetric, from: Date, to: Date): SamplePoint[] {
+  const { value, peak } = SAMPLE_COLUMNS[metric];
+  return openHistory()
+    .query(`SELECT ts, ${value} AS value, ${peak} AS peak FROM samples WHERE ts >= ? AND ts < ? ORDER BY ts`)
+    .all(from.getTime(), to.getTime()) as SamplePoint[];
+}
+
+export function getFirstSampleTime(): number | null {
+  const row = openHistory().query("SELECT MIN(ts) AS ts FROM samples").get() as { ts: number | null };
+  return row.ts;
+}
+
+export function getBaseline(metric: SampleMetric, from: Date, to: Date): BaselineSlot[] {
+  const { value, square } = SAMPLE_COLUMNS[metric];
+  const rows = openHistory()
+    .query(
+      `SELECT CAST(strftime('%w', ts / 1000, 'unixepoch', 'localtime') AS INTEGER) * 24 +
+              CAST(strftime('%H', ts / 1000, 'unixepoch', 'localtime') AS INTEGER) AS slot,
+              SUM(count) AS samples,
+              SUM(${value} * count) / SUM(count) AS mean,
+              SUM(${square} * count) / SUM(count) AS meanSquare
+       FROM samples WHERE ts >= ? AND ts < ? GROUP BY slot`
+    )
+    .all(from.getTime(), to.getTime()) as Array<{ slot: number; samples: number; mean: number; meanSquare: number }>;
+
+  return rows.map((row) => ({
+    slot: row.slot,
+    samples: row.samples,
+    mean: row.mean,
+    stddev: Math.sqrt(Math.max(0, row.meanSquare - row.mean * row.mean)),
+  }));
+}
+
+export function queryMountSamples(mount: string, from: Date, to: Date): SamplePoint[] {
+  return openHistory()
+    .query(
+      `SELECT ts, usage AS value, usage_max AS peak FROM mount_samples
+       WHERE mount = ? AND ts >= ? AND ts < ? ORDER BY ts`
+    )
+    .all(mount, from.getTime(), to.getTime()) as SamplePoint[];
+}
+
+export function listMounts(): string[] {
+  return (openHistory().query("SELECT DISTINCT mount FROM mount_samples ORDER BY mount").all() as Array<{ mount: string }>)
+    .map((row) => row.mount);
+}
+
+export function queryEvents(kind: EventKind, from: Date, to: Date, subject?: string): HistoryEvent[] {
+  const database = openHistory();
+  return (
+    subject === undefined
+      ? database
+          .query("SELECT ts, kind, subject, detail FROM events WHERE kind = ? AND ts >= ? AND ts < ? ORDER BY ts")
+          .all(kind, from.getTime(), to.getTime())
+      : database
+          .query(
+            "SELECT ts, kind, subject, detail FROM events WHERE kind = ? AND subject = ? AND ts >= ? AND ts < ? ORDER BY ts"
+          )
+          .all(kind, subject, from.getTime(), to.getTime())
+  ) as HistoryEvent[];
+}
+
+export function maintainHistory(policy: RetentionPolicy, now = Date.now()): MaintenanceResult {
+  const database = openHistory();
+  const expiry = now - policy.retentionDays * DAY_MS;
+  const cutoff = Math.floor((now - policy.downsampleAfterDays * DAY_MS) / HOUR_MS) * HOUR_MS;
+  let downsampled = 0;
+  let deleted = 0;
+
+  database.transaction(() => {
+    deleted += database.prepare("DELETE FROM samples WHERE ts < ?").run(expiry).changes;
+    deleted += database.prepare("DELETE FROM mount_samples WHERE ts < ?").run(expiry).changes;
+    deleted += database.prepare("DELETE FROM events WHERE ts < ?").run(expiry).changes;
+    deleted += database.prepare("DELETE FROM reports WHERE ts < ?").run(expiry).changes;
+
+    database
+      .prepare(
+        `INSERT INTO samples (ts, cpu, ram, disk, cpu_max, ram_max, disk_max, connections, processes, sessions,
+                              cpu_sq, ram_sq, disk_sq, connections_sq, processes_sq, sessions_sq, count, resolution)
+         SELECT (ts / ${HOUR_MS}) * ${HOUR_MS} AS bucket,
+                SUM(cpu * count) / SUM(count), SUM(ram * count) / SUM(count), SUM(disk * count) / SUM(count),
+                MAX(cpu_max), MAX(ram_max), MAX(disk_max),
+                ROUND(AVG(connections)), ROUND(AVG(processes)), ROUND(AVG(sessions)),
+                SUM(cpu_sq * count) / SUM(count), SUM(ram_sq * count) / SUM(count), SUM(disk_sq * count) / SUM(count),
+                SUM(connections_sq * count) / SUM(count), SUM(processes_sq * count) / SUM(count),
+                SUM(sessions_sq * count) / SUM(count), SUM(count), ${HOUR_MS / 1000}
+         FROM samples WHERE resolution = 0 AND ts < ? GROUP BY bucket`
+      )
+      .run(cutoff);
+    downsampled += database.prepare("DELETE FROM samples WHERE resolution = 0 AND ts < ?").run(cutoff).changes;
+
+    database
+      .prepare(
+        `INSERT INTO mount_samples (ts, mount, usage, usage_max, count, resolution)
+         SELECT (ts / ${HOUR_MS}) * ${HOUR_MS} AS bucket, mount,
+                SUM(usage * count) / SUM(count), MAX(usage_max), SUM(count), ${HOUR_MS / 1000}
+         FROM mount_samples WHERE resolution = 0 AND ts < ? GROUP BY bucket, mount`
+      )
+      .run(cutoff);
+    downsampled += database.prepare("DELETE FROM mount_samples WHERE resolution = 0 AND ts < ?").run(cutoff).changes;
+  })();
+
+  return { downsampled, deleted };
+}
@@ -0,0 +1,19 @@
+export const REPORT_TRIGGERS = [
+  "scheduled",
+  "manual",
+  "login",
+  "unlock",
+  "whatsapp",
+  "threshold",
+  "suspicious",
+  "brute-force",
+  "anomaly",
+  "digest",
+  "catch-up",
+] as const;
+
+export type ReportTrigger = (typeof REPORT_TRIGGERS)[number];
+
+export function isReportTrigger(trigger: string): trigger is ReportTrigger {
+  return (REPORT_TRIGGERS as readonly string[]).includes(trigger);
+}
@@ -0,0 +1,160 @@
+import { generateBar, generateSparkline } from "../report/chart.ts";
+import type { EventKind, HistoryEvent, SampleMetric, SamplePoint } from "./store.ts";
+
+export const HISTORY_VIEWS = ["table", "graph", "json"] as const;
+
+export type HistoryView = (typeof HISTORY_VIEWS)[number];
+
+export type HistorySeries =
+  | { type: "samples"; metric: SampleMetric; label: string; unit: string }
+  | { type: "events"; kind: EventKind; label: string; columns: [string, string]; byUser: boolean };
+
+export const HISTORY_SERIES: Record<string, HistorySeries> = {
+  cpu: { type: "samples", metric: "cpu", label: "CPU usage", unit: "%" },
+  ram: { type: "samples", metric: "ram", label: "RAM usage", unit: "%" },
+  disk: { type: "samples", metric: "disk", label: "Disk usage", unit: "%" },
+  connections: { type: "samples", metric: "connections", label: "Network connections", unit: "" },
+  processes: { type: "samples", metric: "processes", label: "Processes", unit: "" },
+  logins: { type: "events", kind: "login", label: "Logins", columns: ["User", "From"], byUser: true },
+  "failed-logins": { type: "events", kind: "failed_login", label: "Failed logins", columns: ["User", "From"], byUser: true },
+  sessions: { type: "events", kind: "session", label: "Sessions", columns: ["User", "Terminal / From"], byUser: true },
+  usb: { type: "events", kind: "usb", label: "USB devices", columns: ["Device", "ID"], byUser: false },
+  alerts: { type: "events", kind: "alert", label: "Alerts", columns: ["Type", "Message"], byUser: false },
+  suspicious: { type: "events", kind: "suspicious", label: "Suspicious activity", columns: ["Activity", ""], byUser: false },
+  "new-processes": { type: "events", kind: "process", label: "New processes", columns: ["Process", ""], byUser: false },
+  programs: { type: "events", kind: "program", label: "Running programs", columns: ["Program", ""], byUser: false },
+  visits: { type: "events", kind: "visit", label: "Browser visits", columns: ["Domain", "URL"], byUser: false },
+};
+
+export function isHistoryView(view: string): view is HistoryView {
+  return (HISTORY_VIEWS as readonly string[]).includes(view);
+}
+
+interface Bucket {
+  start: number;
+  values: number[];
+  peak: number;
+}
+
+const BUCKETS = 24;
+
+function bucketize(from: Date, to: Date, items: Array<{ ts: number; value: number; peak: number }>): Bucket[] {
+  const span = Math.max(1, to.getTime() - from.getTime());
+  const size = span / BUCKETS;
+  const buckets: Bucket[] = Array.from({ length: BUCKETS }, (_, i) => ({
+    start: from.getTime() + i * size,
+    values: [],
+    peak: 0,
+  }));
+
+  for (const item of items) {
+    const bucket = buckets[Math.min(BUCKETS - 1, Math.floor((item.ts - from.getTime()) / size))];
+    if (!bucket) continue;
+    bucket.values.push(item.value);
+    bucket.peak = Math.max(bucket.peak, item.peak);
+  }
+  return buckets;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function formatTime(ts: number, span: number): string {
+  const date = new Date(ts);
+  return span > 24 * 60 * 60 * 1000
+    ? date.toLocaleString([], { month: "short", day: "2-digit", hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function formatValue(value: number, unit: string): string {
+  return unit === "%" ? `${value.toFixed(1)}%` : `${Math.round(value)}`;
+}
+
+export function renderSampleHistory(
+  series: Extract<HistorySeries, { type: "samples" }>,
+  title: string,
+  points: SamplePoint[],
+  from: Date,
+  to: Date,
+  view: Exclude<HistoryView, "json">
+): string {
+  const lines = [`${title} (${points.length} samples)`];
+  if (points.length === 0) {
+    lines.push("No samples recorded in this period.");
+    return lines.join("\n");
+  }
+
+  const span = to.getTime() - from.getTime();
+  const allBuckets = bucketize(from, to, points);
+  const buckets = allBuckets.filter((b) => b.values.length > 0);
+  const averages = buckets.map((b) => average(b.values));
+  const scale = series.unit === "%" ? 100 : Math.max(...buckets.map((b) => b.peak));
+
+  lines.push(
+    `min ${formatValue(Math.min(...points.map((p) => p.value)), series.unit)}  ` +
+      `avg ${formatValue(average(points.map((p) => p.value)), series.unit)}  ` +
+      `peak ${formatValue(Math.max(...points.map((p) => p.peak)), series.unit)}`
+  );
+  lines.push("");
+
+  if (view === "table") {
+    lines.push(generateSparkline(allBuckets.map((b) => (b.values.length > 0 ? average(b.values) : null)), scale));
+    lines.push("");
+    lines.push(`${"Time".padEnd(16)}${"Avg".padStart(8)}${"Peak".padStart(8)}`);
+    buckets.forEach((bucket, i) => {
+      lines.push(
+        `${formatTime(bucket.start, span).padEnd(16)}` +
+          `${formatValue(averages[i]!, series.unit).padStart(8)}` +
+          `${formatValue(bucket.peak, series.unit).padStart(8)}`
+      );
+    });
+  } else {
+    buckets.forEach((bucket, i) => {
+      const percent = scale > 0 ? (averages[i]! / scale) * 100 : 0;
+      lines.push(
+        `${formatTime(bucket.start, span).padEnd(16)}${generateBar(percent, 30)} ` +
+          `${formatValue(averages[i]!, series.unit)} (peak ${formatValue(bucket.peak, series.unit)})`
+      );
+    });
+  }
+  return lines.join("\n");
+}
+
+export function renderEventHistory(
+  series: Extract<HistorySeries, { type: "events" }>,
+  title: string,
+  events: HistoryEvent[],
+  from: Date,
+  to: Date,
+  view: Exclude<HistoryView, "json">
+): string {
+  const lines = [`${title} (${events.length})`];
+  if (events.length === 0) {
+    lines.push("No events recorded in this period.");
+    return lines.join("\n");
+  }
+
+  const span = to.getTime() - from.getTime();
+  const counts = bucketize(from, to, events.map((e) => ({ ts: e.ts, value: 1, peak: 0 }))).map((b) => ({
+    start: b.start,
+    count: b.values.length,
+  }));
+  const max = Math.max(...counts.map((c) => c.count));
+  lines.push(generateSparkline(counts.map((c) => c.count), max));
+  lines.push("");
+
+  if (view === "table") {
+    const [subject, detail] = series.columns;
+    const width = Math.max(subject.length, ...events.map((e) => e.subject.length)) + 2;
+    lines.push(`${"Time".padEnd(26)}${subject.padEnd(width)}${detail}`.trimEnd());
+    for (const event of events) {
+      lines.push(`${new Date(event.ts).toLocaleString().padEnd(26)}${event.subject.padEnd(width)}${event.detail}`.trimEnd());
+    }
+  } else {
+    for (const { start, count } of counts) {
+      lines.push(`${formatTime(start, span).padEnd(16)}${generateBar(max > 0 ? (count / max) * 100 : 0, 30)} ${count}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -3,18 +3,57 @@ import { Command } from "commander";
 import { createInterface } from "readline";
 import { existsSync } from "fs";
 import { join } from "path";
-import { homedir } from "os";
 import {
   loadConfig,
   saveConfig,
   getDefaultConfig,
+  inspectConfig,
+  validateConfig,
+  getConfigValue,
+  setConfigValue,
+  unsetConfigValue,
+  getSettingNode,
+  getConfigDir,
+  getConfigFile,
+  clearSessionDir,
+  setConfigDir,
+  ConfigError,
   type Config,
 } from "./config/settings.ts";
-
-const CONFIG_FILE = join(homedir(), ".config", "system-monitor", "config.json");
+import { buildSetupConfig, SETUP_ENV_VARS, type SetupAnswers } from "./config/setup.ts";
+import {
+  watchConfig,
+  stopWatchingConfig,
+  reloadConfig,
+  hasChanged,
+} from "./config/watcher.ts";
+import {
+  listProfiles,
+  createProfile,
+  deleteProfile,
+  getProfileDir,
+  getExistingProfileDir,
+  getActiveProfile,
+} from "./config/profiles.ts";
+import {
+  storeSecret,
+  maskSecret,
+  maskConfig,
+  setKeystoreSecret,
+  deleteKeystoreSecret,
+  listKeystoreSecrets,
+  SMTP_PASS_SECRET,
+  SecretError,
+  secretNameForPath,
+} from "./config/secrets.ts";
+
+function suspiciousFingerprint(finding: string): string {
+  const check = finding.split(":")[0]!.replace(/\d+/g, "").toLowerCase();
+  return `suspicious:${check.replace(/[^a-z]+/g, "-").replace(/^-|-$/g, "")}`;
+}
 
 function isSetupComplete(): boolean {
-  return existsSync(CONFIG_FILE);
+  return existsSync(getConfigFile());
 }
 import { getSystemStats, getQuickStats } from "./monitor/system.ts";
 import {
@@ -25,6 +64,9 @@ import {
   stopWatchingLogins,
   watchScreenUnlock,
   stopWatchingScreenUnlock,
+  watchFailedLogins,
+  stopWatchingFailedLogins,
+  type LoginEvent,
 } from "./monitor/login.ts";
 import {
   getActivitySummary,
@@ -44,25 +86,127 @@ import {
 } from "./auth/whatsapp.ts";
 import { sendReportToWhatsApp, notifyViaWhatsApp } from "./notify/whatsapp.ts";
 import { sendReportEmail, verifyEmailConfig } from "./notify/email.ts";
+import { sendWebhook, buildWebhookPayload } from "./notify/webhook.ts";
+import { notifyViaNtfy } from "./notify/ntfy.ts";
+import { notifyViaGotify } from "./notify/gotify.ts";
+import {
+  attemptDelivery,
+  recordDelivery,
+  sendNotifications,
+  flushHeldNotifications,
+  followUpAlerts,
+} from "./notify/dispatcher.ts";
+import { acknowledge, listUnacknowledged } from "./alerts/ack.ts";
+import {
+  setSnooze,
+  getSnooze,
+  clearSnooze,
+  describeSnooze,
+  listHeldNotifications,
+  parseTriggerList,
+  HOLDABLE_TRIGGERS,
+} from "./notify/quiet.ts";
+import { activeQuietWindow, type QuietHours } from "./notify/schedule.ts";
 import {
   generateTextReport,
   generateQuickReport,
   generateAlertMessage,
+  formatUptime,
   type FullReport,
 } from "./report/generator.ts";
+import { generateBar } from "./report/chart.ts";
+import { renderReport, TemplateError } from "./report/template.ts";
+import { withChanges, saveLastReport } from "./report/diff.ts";
+import { redactReport, previewRedaction, type PrivacyRules } from "./report/redact.ts";
+import {
+  buildDigest,
+  generateDigestText,
+  isDigestPeriod,
+  nextDigestTime,
+  DIGEST_PERIODS,
+  type DigestPeriod,
+} from "./report/digest.ts";
+import {
+  recordReport,
+  recordEvent,
+  closeHistory,
+  maintainHistory,
+  querySamples,
+  queryMountSamples,
+  queryEvents,
+  listMounts,
+} from "./history/store.ts";
+import {
+  renderSampleHistory,
+  renderEventHistory,
+  isHistoryView,
+  HISTORY_SERIES,
+  HISTORY_VIEWS,
+  type HistoryView,
+} from "./history/view.ts";
+import {
+  formatDeliveries,
+  getArchivedReport,
+  listArchivedReports,
+  pruneArchivedReports,
+} from "./history/archive.ts";
+import { isReportTrigger, REPORT_TRIGGERS } from "./history/triggers.ts";
+import { parseDuration } from "./utils/time.ts";
+import { evaluateRules, getAlertRules, meetsSeverity, type Severity } from "./alerts/rules.ts";
+import { sampleMetrics } from "./alerts/sampler.ts";
+import { detectAnomalies } from "./alerts/anomaly.ts";
+import { reconcileAlerts, firingSince, type AlertTransitions } from "./alerts/state.ts";
+import { detectBruteForce, describeBruteForce, listOffenders, forgetOffender } from "./alerts/bruteforce.ts";
+import {
+  formatReport,
+  isReportFormat,
+  REPORT_FORMATS,
+  type ReportFormat,
+} from "./report/serialize.ts";
 
 const program = new Command();
 
 program
   .name("system-monitor")
   .description("Personal system monitoring tool with WhatsApp & Email notifications")
-  .version("1.0.0");
+  .version("1.0.0")
+  .option("--profile <name>", "Use a named configuration profile")
+  .option("--config-dir <path>", "Use this configuration directory (or set DENOO_CONFIG_DIR)")
+  .hook("preAction", () => {
+    const { profile, configDir } = program.opts();
+    if (configDir) {
+      setConfigDir(configDir);
+    } else if (profile) {
+      setConfigDir(getExistingProfileDir(profile));
+    }
+  });
 
 program
   .command("setup")
-  .description("Interactive setup wizard")
-  .action(async () => {
-    await runSetupWizard();
+  .description("Setup wizard (interactive, or unattended with --from / --non-interactive)")
+  .option("--from <file>", "Read answers from a JSON file (a partial config), implies --non-interactive")
+  .option("--non-interactive", `Don't prompt; use flags and ${SETUP_ENV_VARS.join(", ")}`)
+  .option("--keep-session", "Keep the existing WhatsApp session instead of starting fresh")
+  .option("--dry-run", "Show the resulting configuration without writing anything")
+  .option("--phone <number>", "WhatsApp phone number (enables WhatsApp)")
+  .option("--email-to <email>", "Notification email address (enables email)")
+  .option("--smtp-user <user>", "SMTP username")
+  .option("--smtp-pass <password>", "SMTP password, or env:NAME / file:/path")
+  .option("--smtp-host <host>", "SMTP host")
+  .option("--smtp-port <port>", "SMTP port")
+  .option("--smtp-secure <bool>", "Use SSL for SMTP (true/false)")
+  .option("--ntfy-topic <topic>", "ntfy topic (enables ntfy)")
+  .option("--ntfy-server <url>", "ntfy server (default https://ntfy.sh)")
+  .option("--ntfy-token <token>", "ntfy access token, or env:NAME / file:/path")
+  .option("--gotify-url <url>", "Gotify server URL (enables Gotify)")
+  .option("--gotify-token <token>", "Gotify app token, or env:NAME / file:/path")
+  .option("--interval <ms>", "Report interval in milliseconds")
+  .action(async (options) => {
+    if (options.from || options.nonInteractive) {
+      await runUnattendedSetup(options);
+    } else {
+      await runSetupWizard(options);
+    }
   });
 
 program
@@ -76,18 +220,46 @@ program
       console.log("  denoo setup\n");
       process.exit(1);
     }
-    const config = loadConfig();
-    const interval = options.interval ? parseInt(options.interval) : config.monitoring.intervalMs;
-    await startMonitoring(interval);
+    await startMonitoring(options.interval ? parseInt(options.interval) : undefined);
   });
 
 program
   .command("report")
   .description("Generate and send a report now")
   .option("-q, --quick", "Send quick status instead of full report")
+  .option("-f, --format <format>", `Output format: ${REPORT_FORMATS.join(", ")} (json/ndjson only print, never send)`, "text")
+  .option("-t, --template <name>", "Render the text report with a template from the config directory")
+  .option("-d, --diff", "Only show what changed since the last sent report")
+  .option("--preview-redaction", "Show what the privacy rules would change, without sending")
   .option("--no-send", "Only display, don't send notifications")
   .action(async (options) => {
-    const report = await generateReport();
+    const format = parseFormat(options.format);
+    const config = loadConfig();
+
+    if (options.previewRedaction) {
+      const changes = previewRedaction(await collectReport(), config.privacy);
+      if (changes.length === 0) {
+        console.log("Privacy rules do not change anything in the current report.");
+        return;
+      }
+      console.log(`\nPrivacy rules change ${changes.length} field(s):\n`);
+      for (const change of changes) {
+        console.log(change.field);
+        console.log(`  - ${change.before}`);
+        console.log(`  + ${change.after}`);
+      }
+      console.log("");
+      return;
+    }
+
+    const report = withChanges(await generateReport(config.privacy));
+    const reportOptions = options.diff ? { ...config.report, diffOnly: true } : config.report;
+
+    if (format === "json" || format === "ndjson") {
+      console.log(formatReport(report, format));
+      return;
+    }
+
     const text = options.quick
       ? generateQuickReport(
           report.system.cpu.usage,
@@ -96,19 +268,275 @@ program
           report.sessions.length,
           report.activity.suspiciousActivity
         )
-      : generateTextReport(report);
+      : renderReport(report, reportOptions, options.template);
+
+    console.log(format === "markdown" ? formatReport(report, format) : text);
 
+    if (options.send !== false) {
+      await sendNotifications("manual", text, {
+        report,
+        reportOptions,
+        withHtml: !options.quick && !options.template,
+      });
+      saveLastReport(report);
+    }
+  });
+
+program
+  .command("digest")
+  .description("Generate and send a digest aggregated from recorded history")
+  .option("-p, --period <period>", `Digest period: ${DIGEST_PERIODS.join(", ")}`, "day")
+  .option("--no-send", "Only display, don't send notifications")
+  .action(async (options) => {
+    if (!isDigestPeriod(options.period)) {
+      console.error(`[ERROR] Unknown period "${options.period}" (use ${DIGEST_PERIODS.join(", ")})`);
+      process.exit(1);
+    }
+
+    const text = generateDigestText(buildDigest(options.period));
     console.log(text);
 
     if (options.send !== false) {
-      await sendNotifications(text);
+      await sendNotifications("digest", text, { immediate: true });
     }
   });
 
+program
+  .command("snooze")
+  .description("Hold non-critical notifications for a maintenance window")
+  .argument("[duration]", 'How long to snooze (e.g. 30m, 2h, 1d), or "off" to end the snooze')
+  .option("-a, --alerts <triggers>", `Only hold these notifications (comma-separated: ${HOLDABLE_TRIGGERS.join(", ")})`)
+  .option("-r, --reason <text>", "Why notifications are snoozed", "")
+  .action((duration: string | undefined, options) => {
+    const config = loadConfig();
+
+    if (duration === undefined) {
+      console.log(describeQuietState(config.quietHours));
+      return;
+    }
+    if (duration === "off") {
+      console.log(clearSnooze() ? "Snooze ended." : "Notifications were not snoozed.");
+      return;
+    }
+
+    const ms = parseDuration(duration);
+    if (ms === null || ms <= 0) {
+      console.error(`[ERROR] Invalid duration "${duration}" (use e.g. 30m, 2h, 1d)`);
+      process.exit(1);
+    }
+    const { triggers, unknown } = parseTriggerList(options.alerts ?? "");
+    if (unknown.length > 0) {
+      console.error(`[ERROR] Unknown notification type "${unknown[0]}" (use ${HOLDABLE_TRIGGERS.join(", ")})`);
+      process.exit(1);
+    }
+
+    console.log(describeSnooze(setSnooze(ms, triggers, options.reason)));
+    console.log("Critical alerts are still delivered; held notifications are summarised when the snooze ends.");
+  });
+
+program
+  .command("history")
+  .description("Query samples and events recorded by the daemon")
+  .argument("<series>", `What to show: ${Object.keys(HISTORY_SERIES).join(", ")}`)
+  .option("-s, --since <duration>", "How far back to look (e.g. 30m, 24h, 7d, 2w)", "24h")
+  .option("-u, --user <name>", "Only events for this user (logins, failed-logins, sessions)")
+  .option("-m, --mount <path>", "Usage of a single mount point (disk only)")
+  .option("-f, --format <format>", `Output format: ${HISTORY_VIEWS.join(", ")}`, "table")
+  .action(async (name: string, options) => {
+    const series = HISTORY_SERIES[name];
+    const since = parseDuration(options.since);
+    const errors = [
+      !series && `Unknown series "${name}" (use ${Object.keys(HISTORY_SERIES).join(", ")})`,
+      since === null && `Invalid duration "${options.since}" (use e.g. 30m, 24h, 7d, 2w)`,
+      !isHistoryView(options.format) && `Unknown format "${options.format}" (use ${HISTORY_VIEWS.join(", ")})`,
+      options.user && series && !(series.type === "events" && series.byUser) &&
+        "--user only applies to logins, failed-logins and sessions",
+      options.mount && name !== "disk" && "--mount only applies to disk",
+    ].filter(Boolean);
+    if (errors.length > 0 || !series || since === null) {
+      errors.forEach((error) => console.error(`[ERROR] ${error}`));
+      process.exit(1);
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - since);
+    const view = options.format as HistoryView;
+    const title = `${series.label}${options.mount ? ` on ${options.mount}` : ""}${options.user ? ` for ${options.user}` : ""} - last ${options.since}`;
+
+    if (series.type === "samples") {
+      if (options.mount && !listMounts().includes(options.mount)) {
+        console.error(`[ERROR] No samples for mount "${options.mount}" (recorded: ${listMounts().join(", ") || "none"})`);
+        process.exit(1);
+      }
+      const points = options.mount
+        ? queryMountSamples(options.mount, from, to)
+        : querySamples(series.metric, from, to);
+      console.log(
+        view === "json"
+          ? JSON.stringify(
+              {
+                series: name,
+                mount: options.mount,
+                from: from.toISOString(),
+                to: to.toISOString(),
+                samples: points.map((p) => ({ time: new Date(p.ts).toISOString(), value: p.value, peak: p.peak })),
+              },
+              null,
+              2
+            )
+          : `\n${renderSampleHistory(series, title, points, from, to, view)}\n`
+      );
+    } else {
+      const events = queryEvents(series.kind, from, to, options.user);
+      console.log(
+        view === "json"
+          ? JSON.stringify(
+              {
+                series: name,
+                user: options.user,
+                from: from.toISOString(),
+                to: to.toISOString(),
+                events: events.map((e) => ({ time: new Date(e.ts).toISOString(), subject: e.subject, detail: e.detail })),
+              },
+              null,
+              2
+            )
+          : `\n${renderEventHistory(series, title, events, from, to, view)}\n`
+      );
+    }
+    closeHistory();
+  });
+
+const reportsCommand = program
+  .command("reports")
+  .description("Browse the archive of generated and sent reports");
+
+reportsCommand
+  .command("list")
+  .description("List archived reports, newest first")
+  .option("-s, --since <duration>", "Only reports from this far back (e.g. 24h, 7d)")
+  .option("-t, --trigger <trigger>", `Only this trigger: ${REPORT_TRIGGERS.join(", ")}`)
+  .option("-n, --limit <count>", "Maximum number of reports", "20")
+  .action((options) => {
+    const since = options.since === undefined ? undefined : parseDuration(options.since);
+    if (since === null) {
+      console.error(`[ERROR] Invalid duration "${options.since}" (use e.g. 30m, 24h, 7d, 2w)`);
+      process.exit(1);
+    }
+    if (options.trigger !== undefined && !isReportTrigger(options.trigger)) {
+      console.error(`[ERROR] Unknown trigger "${options.trigger}" (use ${REPORT_TRIGGERS.join(", ")})`);
+      process.exit(1);
+    }
+
+    const reports = listArchivedReports({
+      from: since === undefined ? undefined : new Date(Date.now() - since),
+      trigger: options.trigger,
+      limit: parseInt(options.limit) || 20,
+    });
+    closeHistory();
+
+    if (reports.length === 0) {
+      console.log("No archived reports");
+      return;
+    }
+    console.log(`${"ID".padStart(6)}  ${"Time".padEnd(24)}${"Trigger".padEnd(12)}Delivery`);
+    for (const entry of reports) {
+      console.log(
+        `${String(entry.id).padStart(6)}  ${new Date(entry.ts).toLocaleString().padEnd(24)}` +
+          `${entry.trigger.padEnd(12)}${formatDeliveries(entry.deliveries)}`
+      );
+    }
+  });
+
+reportsCommand
+  .command("show <id>")
+  .description("Show an archived report as it was sent")
+  .option("-f, --format <format>", "Output format: text, json", "text")
+  .action((id: string, options) => {
+    const entry = getArchivedReport(parseInt(id));
+    closeHistory();
+    if (!entry) {
+      console.error(`[ERROR] No archived report with id ${id}`);
+      process.exit(1);
+    }
+
+    if (options.format === "json") {
+      const { preview, ...rest } = entry;
+      console.log(JSON.stringify({ ...rest, ts: new Date(entry.ts).toISOString() }, null, 2));
+      return;
+    }
+    console.log(`\nReport #${entry.id} - ${new Date(entry.ts).toLocaleString()}`);
+    console.log(`Trigger:  ${entry.trigger}`);
+    console.log(`Delivery: ${formatDeliveries(entry.deliveries)}\n`);
+    console.log(entry.text);
+  });
+
+reportsCommand
+  .command("prune")
+  .description("Delete archived reports older than a given age")
+  .option("--older-than <duration>", "Age of reports to delete (e.g. 30d)", "30d")
+  .action((options) => {
+    const age = parseDuration(options.olderThan);
+    if (age === null) {
+      console.error(`[ERROR] Invalid duration "${options.olderThan}" (use e.g. 30m, 24h, 7d, 2w)`);
+      process.exit(1);
+    }
+    const removed = pruneArchivedReports(new Date(Date.now() - age));
+    closeHistory();
+    console.log(`[OK] Removed ${removed} archived report(s) older than ${options.olderThan}`);
+  });
+
+const offendersCommand = program
+  .command("offenders")
+  .description("Hosts seen attempting brute-force logins");
+
+offendersCommand
+  .command("list")
+  .description("List offending hosts, most recent first")
+  .option("-f, --format <format>", "Output format: text, json", "text")
+  .action((options) => {
+    const offenders = listOffenders();
+    if (options.format === "json") {
+      console.log(JSON.stringify(offenders, null, 2));
+      return;
+    }
+    if (offenders.length === 0) {
+      console.log("No offenders recorded");
+      return;
+    }
+
+    const width = Math.max(4, ...offenders.map((o) => o.host.length)) + 2;
+    console.log(`${"Host".padEnd(width)}${"Attempts".padStart(8)}  ${"Alerts".padStart(6)}  ${"Last seen".padEnd(24)}Usernames`);
+    for (const offender of offenders) {
+      console.log(
+        `${offender.host.padEnd(width)}${String(offender.attempts).padStart(8)}  ${String(offender.alerts).padStart(6)}  ` +
+          `${new Date(offender.lastSeen).toLocaleString().padEnd(24)}${offender.usernames.join(", ")}`
+      );
+    }
+  });
+
+offendersCommand
+  .command("forget <host>")
+  .description('Remove a host from the offender list ("all" clears it)')
+  .action((host: string) => {
+    if (!forgetOffender(host)) {
+      console.error(`[ERROR] No offender "${host}"`);
+      process.exit(1);
+    }
+    console.log(host === "all" ? "[OK] Offender list cleared" : `[OK] Forgot ${host}`);
+  });
+
 program
   .command("status")
   .description("Show current system status")
-  .action(async () => {
+  .option("-f, --format <format>", `Output format: ${REPORT_FORMATS.join(", ")}`, "text")
+  .action(async (options) => {
+    const format = parseFormat(options.format);
+    if (format !== "text") {
+      console.log(formatReport(await generateReport(loadConfig().privacy), format));
+      return;
+    }
+
     const stats = await getQuickStats();
     const sessions = await getCurrentSessions();
     const suspicious = await checkSuspiciousActivity();
@@ -142,7 +570,7 @@ program
     }
   });
 
-program
+const configCommand = program
   .command("config")
   .description("View or update configuration")
   .option("--show", "Show current configuration")
@@ -150,18 +578,17 @@ program
   .option("--phone <number>", "Set WhatsApp phone number")
   .option("--email-to <email>", "Set notification email address")
   .option("--email-user <email>", "Set SMTP username")
-  .option("--email-pass <password>", "Set SMTP password")
+  .option("--email-pass <password>", "Set SMTP password (stored in the keystore, or env:NAME / file:/path)")
   .option("--interval <minutes>", "Set report interval")
   .action(async (options) => {
-    let config = loadConfig();
-
       if (options.reset) {
-        config = getDefaultConfig();
-        saveConfig(config);
+        saveConfig(getDefaultConfig());
         console.log("[OK] Configuration reset to defaults");
         return;
       }
 
+    const config = loadConfig();
+
     if (options.phone) {
       config.whatsapp.phoneNumber = options.phone;
       config.whatsapp.enabled = true;
@@ -174,7 +601,7 @@ program
       config.email.smtp.user = options.emailUser;
     }
     if (options.emailPass) {
-      config.email.smtp.pass = options.emailPass;
+      config.email.smtp.pass = storeSecret(SMTP_PASS_SECRET, options.emailPass);
     }
     if (options.interval) {
       config.monitoring.intervalMs = parseInt(options.interval);
@@ -200,10 +627,12 @@ program
       console.log(`  Enabled: ${config.email.enabled}`);
       console.log(`  To: ${config.email.to || "(not set)"}`);
       console.log(`  SMTP User: ${config.email.smtp.user || "(not set)"}`);
+      console.log(`  SMTP Password: ${maskSecret(config.email.smtp.pass) || "(not set)"}`);
       console.log(`  SMTP Host: ${config.email.smtp.host}`);
       console.log("\nMonitoring:");
       console.log(`  Interval: ${config.monitoring.intervalMs} ms`);
       console.log(`  Report on login: ${config.monitoring.reportOnLogin}`);
+      console.log(`  Report on unlock: ${config.monitoring.reportOnUnlock}`);
       console.log(`  Report on suspicious: ${config.monitoring.reportOnSuspiciousActivity}`);
       console.log("\nAlerts Thresholds:");
       console.log(`  CPU: ${config.alerts.cpuThreshold}%`);
@@ -213,6 +642,160 @@ program
     }
   });
 
+configCommand
+  .command("validate")
+  .description("Check the configuration file for problems")
+  .action(() => {
+    const inspection = inspectConfig();
+
+    console.log(`\nConfig file: ${inspection.file}`);
+    if (!inspection.exists) {
+      console.log("[WARN] No configuration file yet, defaults are in use. Run: denoo setup\n");
+      return;
+    }
+    console.log(`Schema version: ${inspection.version ?? "unknown"}`);
+
+    if (inspection.pendingMigrations.length > 0) {
+      console.log("\nPending migrations (applied on next load):");
+      for (const migration of inspection.pendingMigrations) {
+        console.log(`  - v${migration.from} -> v${migration.to}: ${migration.description}`);
+      }
+    }
+
+    if (inspection.issues.length > 0) {
+      console.log(`\n[ERROR] ${inspection.issues.length} problem(s) found:`);
+      for (const issue of inspection.issues) {
+        console.log(`  - ${issue.path}: ${issue.message}`);
+      }
+      console.log("");
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log("\n[OK] Configuration is valid\n");
+  });
+
+configCommand
+  .command("get [path]")
+  .description("Print a setting by dotted path, e.g. alerts.cpuThreshold (secrets are masked)")
+  .action((path?: string) => {
+    const config = maskConfig(loadConfig());
+    const value = path ? getConfigValue(config, path) : config;
+    if (value === undefined) {
+      process.exitCode = 1;
+      return;
+    }
+    console.log(typeof value === "object" ? JSON.stringify(value, null, 2) : String(value));
+  });
+
+configCommand
+  .command("set <path> <value>")
+  .description("Change a setting by dotted path, e.g. monitoring.reportOnLogin false")
+  .action((path: string, value: string) => {
+    const node = getSettingNode(path);
+    if (node.type === "string" && node.secret) {
+      value = storeSecret(secretNameForPath(path), value);
+    }
+    saveConfig(setConfigValue(loadConfig(), path, value));
+    console.log(`[OK] ${path} updated`);
+  });
+
+configCommand
+  .command("unset <path>")
+  .description("Restore a setting to its default (or remove a list entry)")
+  .action((path: string) => {
+    saveConfig(unsetConfigValue(loadConfig(), path));
+    console.log(`[OK] ${path} reset`);
+  });
+
+const secretCommand = program
+  .command("secret")
+  .description("Manage secrets in the encrypted local keystore");
+
+secretCommand
+  .command("set <name> [value]")
+  .description("Store a secret (prompts when no value is given)")
+  .action(async (name: string, value?: string) => {
+    if (value === undefined) {
+      const rl = createInterface({ input: process.stdin, output: process.stdout });
+      value = await new Promise<string>((resolve) => rl.question(`Value for ${name}: `, resolve));
+      rl.close();
+    }
+    setKeystoreSecret(name, value.trim());
+    console.log(`[OK] Secret stored. Reference it in config as: keystore:${name}`);
+  });
+
+secretCommand
+  .command("list")
+  .description("List stored secret names")
+  .action(() => {
+    const names = listKeystoreSecrets();
+    if (names.length === 0) {
+      console.log("No secrets stored");
+      return;
+    }
+    names.forEach((name) => console.log(`keystore:${name}`));
+  });
+
+secretCommand
+  .command("delete <name>")
+  .description("Remove a secret from the keystore")
+  .action((name: string) => {
+    console.log(
+      deleteKeystoreSecret(name) ? `[OK] Secret ${name} deleted` : `[WARN] No secret named ${name}`
+    );
+  });
+
+const profileCommand = program
+  .command("profile")
+  .description("Manage configuration profiles");
+
+profileCommand
+  .command("list")
+  .description("List configuration profiles")
+  .action(() => {
+    const active = getActiveProfile();
+    for (const name of listProfiles()) {
+      const configured = existsSync(join(getProfileDir(name), "config.json")) ? "" : " (not set up)";
+      console.log(`${name === active ? "*" : " "} ${name}${configured}`);
+    }
+    if (!active) {
+      console.log(`\nUsing custom config directory: ${getConfigDir()}`);
+    }
+  });
+
+profileCommand
+  .command("create <name>")
+  .description("Create a new, empty profile")
+  .option("--from <profile>", "Copy configuration from an existing profile")
+  .action((name: string, options) => {
+    const dir = createProfile(name, options.from);
+    console.log(`[OK] Profile ${name} created at ${dir}`);
+    if (!options.from) {
+      console.log(`\nConfigure it with:\n  denoo --profile ${name} setup\n`);
+    }
+  });
+
+profileCommand
+  .command("delete <name>")
+  .description("Delete a profile, including its WhatsApp session")
+  .option("-y, --yes", "Don't ask for confirmation")
+  .action(async (name: string, options) => {
+    if (!options.yes) {
+      const rl = createInterface({ input: process.stdin, output: process.stdout });
+      const answer = await new Promise<string>((resolve) =>
+        rl.question(`Delete profile ${name} and its WhatsApp session? (y/n): `, resolve)
+      );
+      rl.close();
+      if (answer.toLowerCase() !== "y") {
+        console.log("Cancelled");
+        return;
+      }
+    }
+    deleteProfile(name);
+    console.log(`[OK] Profile ${name} deleted`);
+  });
+
 program
   .command("edit")
   .description("Interactive settings editor")
@@ -225,6 +808,9 @@ program
   .description("Test notifications")
   .option("-w, --whatsapp", "Test WhatsApp notification")
   .option("-e, --email", "Test email notification")
+  .option("-n, --ntfy", "Test ntfy notification")
+  .option("-g, --gotify", "Test Gotify notification")
+  .option("-k, --webhook", "Test webhook notification")
   .action(async (options) => {
     const testMessage = "[TEST] Test notification from System Monitor\n\nIf you received this, notifications are working!";
 
@@ -245,12 +831,68 @@ program
       }
     }
 
-    if (!options.whatsapp && !options.email) {
-      console.log("Specify --whatsapp or --email to test");
+    if (options.ntfy) {
+      console.log("Testing ntfy...");
+      const sent = await notifyViaNtfy(testMessage);
+      console.log(sent ? "[OK] ntfy test sent!" : "[ERROR] ntfy test failed");
+    }
+
+    if (options.gotify) {
+      console.log("Testing Gotify...");
+      const sent = await notifyViaGotify(testMessage);
+      console.log(sent ? "[OK] Gotify test sent!" : "[ERROR] Gotify test failed");
+    }
+
+    if (options.webhook) {
+      console.log("Testing webhook...");
+      const sent = await sendWebhook(buildWebhookPayload("manual", "info", testMessage));
+      console.log(sent ? "[OK] Webhook test sent!" : "[ERROR] Webhook test failed");
+    }
+
+    if (!options.whatsapp && !options.email && !options.ntfy && !options.gotify && !options.webhook) {
+      console.log("Specify --whatsapp, --email, --ntfy, --gotify or --webhook to test");
     }
   });
 
-async function runSetupWizard(): Promise<void> {
+function finishSetup(config: Config, options: { dryRun?: boolean }): void {
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigError("Setup answers are invalid, nothing was written", issues);
+  }
+
+  if (options.dryRun) {
+    console.log("\n[DRY RUN] Resulting configuration (nothing was written):\n");
+    console.log(JSON.stringify(maskConfig(config), null, 2));
+    console.log("");
+    return;
+  }
+
+  config.email.smtp.pass = storeSecret(SMTP_PASS_SECRET, config.email.smtp.pass);
+  config.ntfy.token = storeSecret(secretNameForPath("ntfy.token"), config.ntfy.token);
+  config.gotify.token = storeSecret(secretNameForPath("gotify.token"), config.gotify.token);
+  saveConfig(config);
+
+  console.log("\n[OK] Setup complete!");
+  console.log("\nTo start monitoring, run:");
+  console.log("  denoo start\n");
+}
+
+async function runUnattendedSetup(options: SetupAnswers & { keepSession?: boolean; dryRun?: boolean }): Promise<void> {
+  const config = buildSetupConfig(options);
+
+  if (!options.dryRun && !options.keepSession) {
+    clearSessionDir();
+  }
+
+  finishSetup(config, options);
+
+  if (!options.dryRun && config.whatsapp.enabled) {
+    console.log("WhatsApp needs a one-time QR scan. Link it with:");
+    console.log("  denoo whatsapp\n");
+  }
+}
+
+async function runSetupWizard(options: { keepSession?: boolean; dryRun?: boolean }): Promise<void> {
   const rl = createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -263,10 +905,15 @@ async function runSetupWizard(): Promise<void> {
   console.log("║     System Monitor Setup Wizard        ║");
   console.log("[========================================]\n");
 
-  console.log("[WARN] Starting fresh setup (this will overwrite existing config and session)\n");
-  
-  const { clearSessionDir, getDefaultConfig } = await import("./config/settings.ts");
-  clearSessionDir();
+  if (options.dryRun) {
+    console.log("[DRY RUN] Nothing will be written; the resulting config is shown at the end\n");
+  } else if (options.keepSession) {
+    console.log("[WARN] Starting fresh setup (this will overwrite existing config, WhatsApp session is kept)\n");
+  } else {
+    console.log("[WARN] Starting fresh setup (this will overwrite existing config and session)\n");
+    clearSessionDir();
+  }
+
   const config = getDefaultConfig();
 
   console.log("WhatsApp Setup");
@@ -278,12 +925,16 @@ async function runSetupWizard(): Promise<void> {
     const phone = await question("Enter your phone number (with country code, e.g., 923001234567): ");
     config.whatsapp.phoneNumber = phone.trim();
 
-    console.log("\nConnecting to WhatsApp...");
-    try {
-      await initWhatsApp();
-      console.log("[OK] WhatsApp connected!\n");
-    } catch (error) {
-      console.log("[WARN] WhatsApp setup failed. You can try again later with: monitor whatsapp\n");
+    if (options.dryRun) {
+      console.log("\n[DRY RUN] Skipping WhatsApp connection\n");
+    } else {
+      console.log("\nConnecting to WhatsApp...");
+      try {
+        await initWhatsApp();
+        console.log("[OK] WhatsApp connected!\n");
+      } catch (error) {
+        console.log("[WARN] WhatsApp setup failed. You can try again later with: monitor whatsapp\n");
+      }
     }
   }
 
@@ -295,7 +946,8 @@ async function runSetupWizard(): Promise<void> {
     config.email.enabled = true;
     config.email.to = await question("Email address to receive notifications: ");
     config.email.smtp.user = await question("SMTP username (your email): ");
-    config.email.smtp.pass = await question("SMTP password (app password for Gmail): ");
+    const pass = await question("SMTP password (app password for Gmail, or env:NAME / file:/path): ");
+    config.email.smtp.pass = pass.trim();
 
     const customSmtp = await question("Use custom SMTP? (y/n, default is Gmail): ");
     if (customSmtp.toLowerCase() === "y") {
@@ -305,6 +957,26 @@ async function runSetupWizard(): Promise<void> {
     }
   }
 
+  console.log("\nPush Notifications (ntfy / Gotify)");
+  console.log("─────────────────────────────────");
+  const setupNtfy = await question("Enable ntfy notifications? (y/n): ");
+
+  if (setupNtfy.toLowerCase() === "y") {
+    config.ntfy.enabled = true;
+    const server = await question(`ntfy server (default ${config.ntfy.server}): `);
+    if (server.trim()) config.ntfy.server = server.trim();
+    config.ntfy.topic = (await question("ntfy topic: ")).trim();
+    config.ntfy.token = (await question("Access token (enter for none, or env:NAME / file:/path): ")).trim();
+  }
+
+  const setupGotify = await question("Enable Gotify notifications? (y/n): ");
+
+  if (setupGotify.toLowerCase() === "y") {
+    config.gotify.enabled = true;
+    config.gotify.server = (await question("Gotify server URL: ")).trim();
+    config.gotify.token = (await question("Gotify app token (or env:NAME / file:/path): ")).trim();
+  }
+
   console.log("\nMonitoring Settings");
   console.log("─────────────────────────");
   const interval = await question(`Report interval in milliseconds (default ${config.monitoring.intervalMs}): `);
@@ -312,11 +984,7 @@ async function runSetupWizard(): Promise<void> {
     config.monitoring.intervalMs = parseInt(interval);
   }
 
-  saveConfig(config);
-
-  console.log("\n[OK] Setup complete!");
-  console.log("\nTo start monitoring, run:");
-  console.log("  denoo start\n");
+  finishSetup(config, options);
 
   rl.close();
 }
@@ -377,8 +1045,8 @@ async function runEditWizard(): Promise<void> {
       const user = await question("SMTP username (enter to skip): ");
       if (user.trim()) config.email.smtp.user = user.trim();
 
-      const pass = await question("SMTP password (enter to skip): ");
-      if (pass.trim()) config.email.smtp.pass = pass.trim();
+      const pass = await question("SMTP password or env:NAME / file:/path (enter to skip): ");
+      if (pass.trim()) config.email.smtp.pass = storeSecret(SMTP_PASS_SECRET, pass.trim());
 
       const host = await question("SMTP host (enter to skip): ");
       if (host.trim()) config.email.smtp.host = host.trim();
@@ -394,6 +1062,7 @@ async function runEditWizard(): Promise<void> {
       console.log("\n--- Monitoring Settings ---");
       console.log(`Current interval: ${config.monitoring.intervalMs} ms (${config.monitoring.intervalMs / 60000} minutes)`);
       console.log(`Report on login: ${config.monitoring.reportOnLogin}`);
+      console.log(`Report on unlock: ${config.monitoring.reportOnUnlock}`);
       console.log(`Report on suspicious: ${config.monitoring.reportOnSuspiciousActivity}\n`);
 
       const interval = await question("Report interval in minutes (enter to skip): ");
@@ -403,6 +1072,10 @@ async function runEditWizard(): Promise<void> {
       if (onLogin.toLowerCase() === "y") config.monitoring.reportOnLogin = true;
       else if (onLogin.toLowerCase() === "n") config.monitoring.reportOnLogin = false;
 
+      const onUnlock = await question("Report on screen unlock? (y/n, enter to skip): ");
+      if (onUnlock.toLowerCase() === "y") config.monitoring.reportOnUnlock = true;
+      else if (onUnlock.toLowerCase() === "n") config.monitoring.reportOnUnlock = false;
+
       const onSuspicious = await question("Report on suspicious activity? (y/n, enter to skip): ");
       if (onSuspicious.toLowerCase() === "y") config.monitoring.reportOnSuspiciousActivity = true;
       else if (onSuspicious.toLowerCase() === "n") config.monitoring.reportOnSuspiciousActivity = false;
@@ -452,7 +1125,7 @@ async function runEditWizard(): Promise<void> {
     }
     case "6": {
       console.log("\n--- Current Configuration ---\n");
-      console.log(JSON.stringify(config, null, 2));
+      console.log(JSON.stringify(maskConfig(config), null, 2));
       break;
     }
     case "0":
@@ -465,7 +1138,7 @@ async function runEditWizard(): Promise<void> {
   rl.close();
 }
 
-async function generateReport(): Promise<FullReport> {
+async function collectReport(): Promise<FullReport> {
   const [system, sessions, recentLogins, failedLogins, activity, browserHistory, runningPrograms, openWindows] = await Promise.all([
     getSystemStats(),
     getCurrentSessions(),
@@ -490,48 +1163,76 @@ async function generateReport(): Promise<FullReport> {
   };
 }
 
-async function sendNotifications(message: string): Promise<void> {
-  const config = loadConfig();
+async function generateReport(privacy: PrivacyRules): Promise<FullReport> {
+  return redactReport(await collectReport(), privacy);
+}
 
-  if (config.whatsapp.enabled && config.whatsapp.phoneNumber) {
-    console.log("Sending to WhatsApp...");
-    await sendReportToWhatsApp(message);
+function describeQuietState(quiet: QuietHours): string {
+  const lines: string[] = [];
+  const snooze = getSnooze();
+  lines.push(snooze ? describeSnooze(snooze) : "Not snoozed.");
+
+  const window = activeQuietWindow(quiet);
+  if (window) {
+    lines.push(
+      `Quiet hours until ${new Date(window.until).toLocaleTimeString()} (only ${window.window.allow} and above delivered)`
+    );
+  } else if (quiet.enabled) {
+    lines.push("Outside quiet hours.");
   }
 
-  if (config.email.enabled && config.email.to) {
-    console.log("Sending email...");
-    await sendReportEmail(message);
+  const held = listHeldNotifications().length;
+  if (held > 0) {
+    lines.push(`${held} notification(s) held for the catch-up summary.`);
   }
+  return lines.join("\n");
 }
 
-async function startMonitoring(intervalMs: number): Promise<void> {
-  const config = loadConfig();
+async function startMonitoring(intervalOverride?: number): Promise<void> {
+  let config = loadConfig();
+  const reportInterval = () => intervalOverride ?? config.monitoring.intervalMs;
+
   console.log("\n[========================================]");
   console.log("║      System Monitor Started            ║");
   console.log("[========================================]\n");
 
-  console.log(`Report interval: ${intervalMs} ms`);
+  console.log(`Report interval: ${reportInterval()} ms`);
   console.log(`WhatsApp: ${config.whatsapp.enabled ? "enabled" : "disabled"}`);
   console.log(`Email: ${config.email.enabled ? "enabled" : "disabled"}`);
   console.log("\nPress Ctrl+C to stop\n");
 
   await initializeBaseline();
 
-  if (config.whatsapp.enabled) {
+  const guard = (name: string, task: () => Promise<void>) => async () => {
+    try {
+      await task();
+    } catch (error) {
+      console.error(`[ERROR] ${name} failed:`, error instanceof Error ? error.message : error);
+    }
+  };
+
+  const startWhatsApp = async () => {
     try {
       await initWhatsApp();
 
       onWhatsAppMessage(async (message, from) => {
+        const reply = (text: string, to?: string) => notifyViaWhatsApp(text, to, config.whatsapp);
         const cmd = message.trim();
         const cmdLower = cmd.toLowerCase();
+        const by = from.replace(/@.*$/, "");
+        const trusted = [config.whatsapp.phoneNumber, config.alerts.escalation.phoneNumber]
+          .map((number) => number.replace(/\D/g, ""))
+          .filter(Boolean)
+          .includes(by.replace(/\D/g, ""));
 
         if (cmd === "generate-report") {
           console.log(`[${new Date().toLocaleString()}] Received 'generate-report' command - sending immediate report...`);
-          const report = await generateReport();
-          const text = generateTextReport(report);
-          await sendReportToWhatsApp(text);
+          const report = await generateReport(config.privacy);
+          const text = generateTextReport(report, config.report);
+          const delivery = await attemptDelivery("whatsapp", () => sendReportToWhatsApp(text));
+          recordDelivery(config, "whatsapp", text, report, [delivery]);
         } else if (cmdLower === "report" || cmdLower === "status") {
-          const report = await generateReport();
+          const report = await generateReport(config.privacy);
           const text =
             cmdLower === "status"
               ? generateQuickReport(
@@ -541,82 +1242,323 @@ async function startMonitoring(intervalMs: number): Promise<void> {
                   report.sessions.length,
                   report.activity.suspiciousActivity
                 )
-              : generateTextReport(report);
-          await sendReportToWhatsApp(text);
+              : generateTextReport(report, config.report);
+          const delivery = await attemptDelivery("whatsapp", () => sendReportToWhatsApp(text));
+          recordDelivery(config, "whatsapp", text, report, [delivery]);
+        } else if (cmdLower === "snooze" || cmdLower.startsWith("snooze ")) {
+          const [, duration, list = ""] = cmdLower.split(/\s+/);
+          if (!trusted) {
+            console.log(`[QUIET] Ignoring "${cmd}" from ${by}: not the configured or escalation number`);
+            await reply("Snooze is only accepted from the configured or escalation number.", from);
+          } else if (!duration) {
+            await reply(describeQuietState(config.quietHours));
+          } else if (duration === "off") {
+            await reply(clearSnooze() ? "Snooze ended." : "Notifications were not snoozed.");
+          } else {
+            const ms = parseDuration(duration);
+            const { triggers, unknown } = parseTriggerList(list);
+            if (ms === null || ms <= 0 || unknown.length > 0) {
+              await reply(`Usage: snooze <duration> [${HOLDABLE_TRIGGERS.join(",")}] or snooze off`);
+            } else {
+              const snooze = setSnooze(ms, triggers, "via WhatsApp");
+              console.log(`[QUIET] ${describeSnooze(snooze)}`);
+              await reply(describeSnooze(snooze));
+            }
+          }
+        } else if (cmdLower === "ack" || cmdLower.startsWith("ack ")) {
+          const [, target] = cmdLower.split(/\s+/);
+          if (!trusted) {
+            console.log(`[ACK] Ignoring "${cmd}" from ${by}: not the configured or escalation number`);
+          } else if (!target) {
+            const pending = listUnacknowledged();
+            await reply(
+              pending.length === 0
+                ? "No alerts are waiting for acknowledgement."
+                : `Unacknowledged alerts: ${pending.map((alert) => `#${alert.id}`).join(", ")}`,
+              from
+            );
+          } else if (target !== "all" && !/^#?\d+$/.test(target)) {
+            await reply("Usage: ack <id> or ack all", from);
+          } else {
+            const acked = acknowledge(target === "all" ? "all" : Number(target.replace("#", "")), by);
+            if (acked.length > 0) {
+              console.log(`[ACK] ${acked.map((alert) => `#${alert.id}`).join(", ")} acknowledged by ${by}`);
+            }
+            await reply(
+              acked.length === 0
+                ? `No unacknowledged alert matches "${target}".`
+                : `Acknowledged ${acked.map((alert) => `#${alert.id}`).join(", ")}.`,
+              from
+            );
+          }
         } else if (cmdLower === "help") {
-          await notifyViaWhatsApp(
-            "Commands:\n- generate-report - Immediate full report\n- report - Full system report\n- status - Quick status\n- help - Show this message"
+          await reply(
+            "Commands:\n- generate-report - Immediate full report\n- report - Full system report\n- status - Quick status\n- snooze <duration> [types] - Hold non-critical notifications (snooze off to end)\n- ack <id|all> - Acknowledge an alert (ack alone lists pending ones)\n- help - Show this message"
           );
         }
       });
     } catch (error) {
       console.error("WhatsApp init failed:", error);
     }
-  }
+  };
 
-  if (config.monitoring.reportOnLogin) {
-    watchLogins(async (event) => {
+  const applyLoginWatcher = () => {
+    stopWatchingLogins();
+    if (!config.monitoring.reportOnLogin) return;
+    watchLogins(guard("Login report", async () => {
       console.log(`[${new Date().toLocaleString()}] Login detected - generating full report...`);
-      const report = await generateReport();
-      const text = generateTextReport(report);
-      await sendNotifications(text);
-    });
-  }
+      const report = await generateReport(config.privacy);
+      const text = generateTextReport(report, config.report);
+      await sendNotifications("login", text, { report }, config);
+    }));
+  };
 
-  watchScreenUnlock(async () => {
-    console.log(`[${new Date().toLocaleString()}] Screen unlock detected - generating full report...`);
-    const report = await generateReport();
-    const text = generateTextReport(report);
-    await sendNotifications(text);
-  });
+  const applyUnlockWatcher = () => {
+    stopWatchingScreenUnlock();
+    if (!config.monitoring.reportOnUnlock) return;
+    watchScreenUnlock(guard("Unlock report", async () => {
+      console.log(`[${new Date().toLocaleString()}] Screen unlock detected - generating full report...`);
+      const report = await generateReport(config.privacy);
+      const text = generateTextReport(report, config.report);
+      await sendNotifications("unlock", text, { report }, config);
+    }));
+  };
 
-  const checkAndReport = async () => {
-    const report = await generateReport();
+  const recordAlert = (type: string, message: string) => {
+    if (config.history.enabled) {
+      recordEvent("alert", type, message);
+    }
+  };
 
-    if (config.monitoring.reportOnSuspiciousActivity && report.activity.suspiciousActivity.length > 0) {
-      const alert = generateAlertMessage(
-        "suspicious",
-        report.activity.suspiciousActivity.join("\n")
-      );
-      await sendNotifications(alert);
+  const onFailedLogins = async (events: LoginEvent[]) => {
+    const { window } = config.alerts.bruteForce;
+    const alerts = detectBruteForce(events, config.alerts.failedLoginAttempts, parseDuration(window) ?? 0);
+    if (alerts.length === 0) return;
+
+    const details = alerts.map((alert) => describeBruteForce(alert, window));
+    for (const line of details) {
+      console.log(`[ALERT] ${config.notifications.severities["brute-force"].toUpperCase()} Brute force: ${line}`);
+      recordAlert("Brute force", line);
     }
+    const severity = config.notifications.severities["brute-force"];
+    const text = generateAlertMessage("brute-force", details.map((line) => `- ${line}`).join("\n"), severity);
+    await sendNotifications("brute-force", text, { severity }, config);
+  };
 
-    const stats = report.system;
-    const alerts: string[] = [];
+  const applyFailedLoginWatcher = () => {
+    stopWatchingFailedLogins();
+    if (!config.alerts.bruteForce.enabled) return;
+    watchFailedLogins((events) => guard("Brute-force detection", () => onFailedLogins(events))());
+  };
+
+  const checkAndReport = async () => {
+    const report = await generateReport(config.privacy);
+    if (config.history.enabled) {
+      recordReport(report);
+    }
 
-    if (stats.cpu.usage > config.alerts.cpuThreshold) {
-      alerts.push(`CPU usage: ${stats.cpu.usage}%`);
+    if (config.monitoring.reportOnSuspiciousActivity) {
+      const active = report.activity.suspiciousActivity.map((item) => ({
+        fingerprint: suspiciousFingerprint(item),
+        name: "Suspicious activity",
+        severity: config.notifications.severities.suspicious,
+        message: item,
+      }));
+      await notifyAlerts("suspicious", reconcileAlerts("suspicious", active, config.alerts.cooldownMs), report);
     }
-    if (stats.memory.usagePercent > config.alerts.ramThreshold) {
-      alerts.push(`RAM usage: ${stats.memory.usagePercent}%`);
+  };
+
+  const notifyAlerts = async (
+    type: "suspicious" | "threshold" | "anomaly",
+    transitions: AlertTransitions,
+    report?: FullReport
+  ) => {
+    const raised = [...transitions.firing, ...transitions.repeating];
+    for (const alert of raised) {
+      console.log(`[ALERT] ${alert.severity.toUpperCase()} ${alert.message}`);
+      recordAlert(type === "suspicious" ? "suspicious" : alert.name, alert.message);
+    }
+
+    if (raised.length > 0) {
+      const details = [
+        ...transitions.firing.map((alert) => `[${alert.severity.toUpperCase()}] ${alert.message}`),
+        ...transitions.repeating.map(
+          (alert) =>
+            `[${alert.severity.toUpperCase()}] ${alert.message} (still firing since ${new Date(alert.since).toLocaleString()})`
+        ),
+      ];
+      const severity = raised.reduce<Severity>(
+        (max, alert) => (meetsSeverity(alert.severity, max) ? alert.severity : max),
+        "info"
+      );
+      await sendNotifications(type, generateAlertMessage(type, details.join("\n"), severity), {
+        report,
+        withHtml: false,
+        severity,
+      }, config);
     }
-    if (stats.disk.usagePercent > config.alerts.diskThreshold) {
-      alerts.push(`Disk usage: ${stats.disk.usagePercent}%`);
+
+    if (transitions.resolved.length > 0 && config.alerts.notifyResolved) {
+      const details = transitions.resolved.map(
+        (alert) => `- ${alert.name}: ${alert.message} (lasted ${formatUptime(((alert.resolvedAt ?? Date.now()) - alert.since) / 1000)})`
+      );
+      console.log(`[ALERT] Resolved: ${transitions.resolved.map((alert) => alert.name).join(", ")}`);
+      const severity = config.notifications.severities.resolved;
+      await sendNotifications(type, generateAlertMessage("resolved", details.join("\n"), severity), {
+        report,
+        withHtml: false,
+        severity,
+      }, config);
     }
+  };
 
-    if (alerts.length > 0) {
-      const alert = generateAlertMessage("threshold", alerts.join("\n"));
-      await sendNotifications(alert);
+  const evaluateAlerts = async () => {
+    const sample = await sampleMetrics(config.alerts.disks, config.history.enabled);
+    const active = evaluateRules(
+      getAlertRules(config.alerts, sample),
+      sample,
+      config.notifications.severities.threshold,
+      (fingerprint) => firingSince("rules", fingerprint)
+    );
+    await notifyAlerts("threshold", reconcileAlerts("rules", active, config.alerts.cooldownMs));
+
+    if (config.history.enabled && config.alerts.anomaly.enabled) {
+      const anomalies = detectAnomalies(
+        sample,
+        config.alerts.anomaly,
+        config.notifications.severities.anomaly,
+        (fingerprint) => firingSince("anomaly", fingerprint)
+      );
+      await notifyAlerts("anomaly", reconcileAlerts("anomaly", anomalies, config.alerts.cooldownMs));
     }
   };
 
+  let alertTimer: ReturnType<typeof setInterval> | null = null;
+  const armAlertTimer = () => {
+    if (alertTimer) clearInterval(alertTimer);
+    alertTimer = setInterval(guard("Alert rules", evaluateAlerts), config.alerts.sampleIntervalMs);
+  };
+
   const sendScheduledReport = async () => {
     console.log(`[${new Date().toLocaleString()}] Sending scheduled report...`);
-    const report = await generateReport();
-    const text = generateTextReport(report);
-    await sendNotifications(text);
+    const report = withChanges(await generateReport(config.privacy));
+    const text = renderReport(report, config.report, config.report.scheduledTemplate || undefined);
+    await sendNotifications("scheduled", text, { report, withHtml: !config.report.scheduledTemplate }, config);
+    saveLastReport(report);
+  };
+
+  let reportTimer: ReturnType<typeof setInterval> | null = null;
+  const armReportTimer = () => {
+    if (reportTimer) clearInterval(reportTimer);
+    reportTimer = setInterval(guard("Scheduled report", sendScheduledReport), reportInterval());
   };
 
-  await sendScheduledReport();
+  if (config.whatsapp.enabled) {
+    await startWhatsApp();
+  }
+  applyLoginWatcher();
+  applyUnlockWatcher();
+  applyFailedLoginWatcher();
+
+  const pruneHistory = async () => {
+    if (!config.history.enabled) return;
+    const { downsampled, deleted } = maintainHistory(config.history);
+    if (downsampled > 0 || deleted > 0) {
+      console.log(`[HISTORY] Downsampled ${downsampled} sample(s), removed ${deleted} expired row(s)`);
+    }
+  };
+
+  const sendDigest = async (period: DigestPeriod) => {
+    console.log(`[${new Date().toLocaleString()}] Sending ${period === "day" ? "daily" : "weekly"} digest...`);
+    await sendNotifications("digest", generateDigestText(buildDigest(period)), {}, config);
+  };
+
+  const digestTimers = new Map<DigestPeriod, ReturnType<typeof setTimeout>>();
+  const armDigestTimer = (period: DigestPeriod) => {
+    clearTimeout(digestTimers.get(period));
+    digestTimers.delete(period);
+    if (!(period === "day" ? config.digest.daily : config.digest.weekly)) return;
+
+    const next = nextDigestTime(period, config.digest);
+    digestTimers.set(
+      period,
+      setTimeout(async () => {
+        await guard("Digest", () => sendDigest(period))();
+        armDigestTimer(period);
+      }, next.getTime() - Date.now())
+    );
+    console.log(`Next ${period === "day" ? "daily" : "weekly"} digest: ${next.toLocaleString()}`);
+  };
 
-  setInterval(sendScheduledReport, intervalMs);
+  await guard("Scheduled report", sendScheduledReport)();
 
-  setInterval(checkAndReport, 5 * 60 * 1000);
+  armReportTimer();
+  DIGEST_PERIODS.forEach(armDigestTimer);
+
+  setInterval(guard("Activity check", checkAndReport), 5 * 60 * 1000);
+  armAlertTimer();
+
+  setInterval(guard("Catch-up summary", async () => {
+    await flushHeldNotifications(config);
+  }), 60 * 1000);
+
+  setInterval(guard("Alert escalation", async () => {
+    await followUpAlerts(config);
+  }), 60 * 1000);
+
+  await guard("History maintenance", pruneHistory)();
+  setInterval(guard("History maintenance", pruneHistory), 6 * 60 * 60 * 1000);
+
+  watchConfig(config, async (next, changes) => {
+    config = next;
+
+    if (hasChanged(changes, "monitoring.intervalMs")) {
+      if (intervalOverride === undefined) {
+        armReportTimer();
+        console.log(`[RELOAD] Report timer re-armed: every ${reportInterval()} ms`);
+      } else {
+        console.log(`[RELOAD] Report interval fixed by --interval (${intervalOverride} ms), not changed`);
+      }
+    }
+    if (hasChanged(changes, "alerts.sampleIntervalMs")) {
+      armAlertTimer();
+      console.log(`[RELOAD] Alert rules now evaluated every ${config.alerts.sampleIntervalMs} ms`);
+    }
+    if (hasChanged(changes, "digest")) {
+      DIGEST_PERIODS.forEach(armDigestTimer);
+    }
+    if (hasChanged(changes, "monitoring.reportOnLogin")) {
+      applyLoginWatcher();
+    }
+    if (hasChanged(changes, "monitoring.reportOnUnlock")) {
+      applyUnlockWatcher();
+    }
+    if (hasChanged(changes, "alerts.bruteForce.enabled")) {
+      applyFailedLoginWatcher();
+    }
+    if (hasChanged(changes, "whatsapp.enabled") || hasChanged(changes, "whatsapp.phoneNumber")) {
+      if (config.whatsapp.enabled && config.whatsapp.phoneNumber) {
+        await startWhatsApp();
+      } else {
+        await destroyWhatsApp();
+        console.log("[RELOAD] WhatsApp channel stopped");
+      }
+    }
+  });
+
+  process.on("SIGHUP", () => {
+    reloadConfig("SIGHUP received").catch((error) =>
+      console.error("[RELOAD] Failed to apply configuration:", error)
+    );
+  });
 
   process.on("SIGINT", async () => {
     console.log("\n\nShutting down...");
+    stopWatchingConfig();
     stopWatchingLogins();
     stopWatchingScreenUnlock();
+    stopWatchingFailedLogins();
+    closeHistory();
     await destroyWhatsApp();
     process.exit(0);
   });
@@ -624,10 +1566,28 @@ async function startMonitoring(intervalMs: number): Promise<void> {
   await new Promise(() => {});
 }
 
-function generateBar(percent: number): string {
-  const width = 20;
-  const filled = Math.round((percent / 100) * width);
-  return "█".repeat(filled) + "░".repeat(width - filled);
+function parseFormat(format: string): ReportFormat {
+  if (!isReportFormat(format)) {
+    console.error(`[ERROR] Unknown format "${format}" (use ${REPORT_FORMATS.join(", ")})`);
+    process.exit(1);
+  }
+  return format;
 }
 
-program.parse();
+program.parseAsync().catch((error) => {
+  if (error instanceof SecretError || error instanceof TemplateError) {
+    console.error(`\n[ERROR] ${error.message}\n`);
+  } else if (error instanceof ConfigError) {
+    console.error(`\n[ERROR] ${error.message}`);
+    for (const issue of error.issues) {
+      console.error(`  - ${issue.path}: ${issue.message}`);
+    }
+    if (error.issues.length > 0) {
+      console.error("\nRun 'denoo config validate' for details, or 'denoo config --reset' to start over.");
+    }
+    console.error("");
+  } else {
+    console.error(error);
+  }
+  process.exit(1);
+});
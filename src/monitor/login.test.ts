@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { appendFileSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  parseFailedLogins,
+  parseLastLoginTime,
+  parseLogDate,
+  readNewAuthLogLines,
+  type AuthLogCursor,
+} from "./login.ts";
+
+const FAILED = "sshd[812]: Failed password for root from 203.0.113.5 port 52144 ssh2";
+
+describe("parseLogDate", () => {
+  test("uses the current year for syslog stamps", () => {
+    const now = new Date(2026, 9, 19, 18, 0, 0);
+    expect(parseLogDate("Oct 19 17:55:24 host sshd[1]: ...", now)).toEqual(new Date(2026, 9, 19, 17, 55, 24));
+    expect(parseLogDate("Oct  9 08:01:02 host sshd[1]: ...", now)).toEqual(new Date(2026, 9, 9, 8, 1, 2));
+  });
+
+  test("rolls back a year when the stamp would be in the future", () => {
+    const now = new Date(2027, 0, 1, 0, 0, 10);
+    expect(parseLogDate("Dec 31 23:59:59 host sshd[1]: ...", now)).toEqual(new Date(2026, 11, 31, 23, 59, 59));
+  });
+
+  test("reads ISO stamps and rejects lines without a date", () => {
+    expect(parseLogDate("2026-10-19T17:55:24.123456+00:00 host sshd[1]: ...")).toEqual(
+      new Date("2026-10-19T17:55:24.123Z")
+    );
+    expect(parseLogDate("no date here")).toBeNull();
+  });
+});
+
+describe("parseLastLoginTime", () => {
+  test("reads the full login time from last -F", () => {
+    const line = "alice    pts/0        10.0.0.5         Mon Oct 19 17:55:24 2026   still logged in";
+    expect(parseLastLoginTime(line)).toEqual(new Date(2026, 9, 19, 17, 55, 24));
+  });
+
+  test("returns null for short or unparsable times", () => {
+    expect(parseLastLoginTime("alice    pts/0        10.0.0.5         Mon Oct 19 17:55   still logged in")).toBeNull();
+    expect(parseLastLoginTime("alice    pts/0        10.0.0.5         Mon Foo 19 17:55:24 2026   still logged in")).toBeNull();
+  });
+});
+
+describe("parseFailedLogins", () => {
+  test("keeps failures newer than the cutoff", () => {
+    const now = new Date(2026, 9, 19, 18, 0, 0);
+    const log = [
+      `Oct 19 17:55:24 host ${FAILED}`,
+      "Oct 19 17:56:00 host sshd[812]: Accepted publickey for alice from 198.51.100.7",
+      `Oct 19 16:10:00 host ${FAILED}`,
+    ].join("\n");
+
+    const events = parseFailedLogins(log, new Date(2026, 9, 19, 17, 0, 0), now);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ user: "root", host: "203.0.113.5", type: "failed" });
+  });
+});
+
+describe("readNewAuthLogLines", () => {
+  test("returns only complete lines appended since the last read", () => {
+    const path = join(mkdtempSync(join(tmpdir(), "denoo-auth-")), "auth.log");
+    writeFileSync(path, "old line\n");
+    const cursor: AuthLogCursor = { ino: 0, offset: 0 };
+    readNewAuthLogLines(path, cursor);
+
+    appendFileSync(path, "first\nsecond\npart");
+    expect(readNewAuthLogLines(path, cursor)).toBe("first\nsecond\n");
+    appendFileSync(path, "ial\n");
+    expect(readNewAuthLogLines(path, cursor)).toBe("partial\n");
+    expect(readNewAuthLogLines(path, cursor)).toBe("");
+  });
+
+  test("starts over when the file is truncated", () => {
+    const path = join(mkdtempSync(join(tmpdir(), "denoo-auth-")), "auth.log");
+    writeFileSync(path, "a long line before rotation\n");
+    const cursor: AuthLogCursor = { ino: 0, offset: 0 };
+    readNewAuthLogLines(path, cursor);
+
+    writeFileSync(path, "rotated\n");
+    expect(readNewAuthLogLines(path, cursor)).toBe("rotated\n");
+  });
+});
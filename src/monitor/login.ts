@@ -1,4 +1,5 @@
 import { exec } from "child_process";
+import { accessSync, closeSync, constants, openSync, readFileSync, readSync, statSync } from "fs";
 import { promisify } from "util";
 import { platform } from "os";
 
@@ -9,7 +10,7 @@ export interface LoginEvent {
   user: string;
   terminal: string;
   host: string;
-  loginTime: Date;
+  loginTime: Date | null;
   logoutTime?: Date;
   duration?: string;
   type: "login" | "logout" | "failed" | "reboot";
@@ -62,6 +63,15 @@ export async function getCurrentSessions(): Promise<CurrentSession[]> {
   }
 }
 
+const LAST_FULL_TIME = /\w{3} (\w{3}\s+\d{1,2} \d{2}:\d{2}:\d{2} \d{4})/;
+
+export function parseLastLoginTime(line: string): Date | null {
+  const match = line.match(LAST_FULL_TIME);
+  if (!match) return null;
+  const time = new Date(match[1]!);
+  return Number.isNaN(time.getTime()) ? null : time;
+}
+
 export async function getRecentLogins(count: number = 10): Promise<LoginEvent[]> {
   try {
     if (isWindows) {
@@ -96,7 +106,7 @@ export async function getRecentLogins(count: number = 10): Promise<LoginEvent[]>
             user: parts[0] || "unknown",
             terminal: parts[1] || "unknown",
             host: parts[2]?.includes(":") ? parts[2] : "local",
-            loginTime: new Date(),
+            loginTime: parseLastLoginTime(line),
             type: "login",
           });
         }
@@ -109,6 +119,66 @@ export async function getRecentLogins(count: number = 10): Promise<LoginEvent[]>
   }
 }
 
+const AUTH_LOG_PATHS = ["/var/log/auth.log", "/var/log/secure", "/var/log/messages"];
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const SYSLOG_DATE = /^(\w{3})\s+(\d{1,2})\s+(\d{2}):(\d{2}):(\d{2})/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseLogDate(line: string, now = new Date()): Date | null {
+  const iso = line.match(ISO_DATE);
+  if (iso) return new Date(iso[0]);
+
+  const match = line.match(SYSLOG_DATE);
+  const month = match ? MONTHS.indexOf(match[1]!.toLowerCase()) : -1;
+  if (!match || month < 0) return null;
+
+  const [, , day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(now.getFullYear(), month, day, hours, minutes, seconds);
+  if (date.getTime() > now.getTime() + DAY_MS) date.setFullYear(date.getFullYear() - 1);
+  return date;
+}
+
+export function parseFailedLogins(log: string, since: Date, now = new Date()): LoginEvent[] {
+  const failedEvents: LoginEvent[] = [];
+
+  for (const line of log.split("\n")) {
+    const lower = line.toLowerCase();
+    if (
+      !lower.includes("failed password") &&
+      !lower.includes("authentication failure") &&
+      !lower.includes("invalid user")
+    ) {
+      continue;
+    }
+
+    const eventTime = parseLogDate(line, now);
+    if (!eventTime || eventTime <= since) continue;
+
+    const userMatch = line.match(/user[=:\s]+(\w+)/i) || line.match(/for\s+(\w+)/i);
+    const hostMatch = line.match(/from\s+([\d.]+|[\w.-]+)/i);
+    failedEvents.push({
+      user: userMatch?.[1] || "unknown",
+      terminal: "ssh",
+      host: hostMatch?.[1] || "unknown",
+      loginTime: eventTime,
+      type: "failed",
+    });
+  }
+
+  return failedEvents;
+}
+
+function findAuthLog(): string | null {
+  for (const path of AUTH_LOG_PATHS) {
+    try {
+      accessSync(path, constants.R_OK);
+      return path;
+    } catch {}
+  }
+  return null;
+}
+
 export async function getFailedLogins(hours: number = 24): Promise<LoginEvent[]> {
   try {
     if (isWindows) {
@@ -129,23 +199,12 @@ export async function getFailedLogins(hours: number = 24): Promise<LoginEvent[]>
         type: "failed" as const,
       }));
     } else {
-      const { existsSync, readFileSync } = require("fs");
-      const authLogPaths = [
-        "/var/log/auth.log",
-        "/var/log/secure",
-        "/var/log/messages",
-      ];
-
       let authLog = "";
-      for (const path of authLogPaths) {
-        if (existsSync(path)) {
-          try {
-            authLog = readFileSync(path, "utf-8");
-            break;
-          } catch {
-            continue;
-          }
-        }
+      const path = findAuthLog();
+      if (path) {
+        try {
+          authLog = readFileSync(path, "utf-8");
+        } catch {}
       }
 
       if (!authLog) {
@@ -159,38 +218,7 @@ export async function getFailedLogins(hours: number = 24): Promise<LoginEvent[]>
         }
       }
 
-      const failedEvents: LoginEvent[] = [];
-      const lines = authLog.split("\n");
-      const cutoffTime = new Date(Date.now() - hours * 60 * 60 * 1000);
-
-      for (const line of lines) {
-        if (
-          line.toLowerCase().includes("failed password") ||
-          line.toLowerCase().includes("authentication failure") ||
-          line.toLowerCase().includes("invalid user")
-        ) {
-          const dateMatch = line.match(
-            /^(\w+\s+\d+\s+\d+:\d+:\d+)|(\d{4}-\d{2}-\d{2}T\d+:\d+:\d+)/
-          );
-          const userMatch = line.match(/user[=:\s]+(\w+)/i) || line.match(/for\s+(\w+)/i);
-          const hostMatch = line.match(/from\s+([\d.]+|[\w.-]+)/i);
-
-          if (dateMatch) {
-            const eventTime = new Date(dateMatch[0]);
-            if (eventTime > cutoffTime) {
-              failedEvents.push({
-                user: userMatch?.[1] || "unknown",
-                terminal: "ssh",
-                host: hostMatch?.[1] || "unknown",
-                loginTime: eventTime,
-                type: "failed",
-              });
-            }
-          }
-        }
-      }
-
-      return failedEvents;
+      return parseFailedLogins(authLog, new Date(Date.now() - hours * 60 * 60 * 1000));
     }
   } catch {
     return [];
@@ -251,6 +279,100 @@ export function stopWatchingLogins(): void {
   }
 }
 
+export interface AuthLogCursor {
+  ino: number;
+  offset: number;
+}
+
+let failedLoginWatcher: ReturnType<typeof setInterval> | null = null;
+let seenFailures = new Map<string, number>();
+
+function countFailures(events: LoginEvent[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    const key = `${event.loginTime?.getTime()}|${event.user}|${event.host}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function readNewAuthLogLines(path: string, cursor: AuthLogCursor): string {
+  const { size, ino } = statSync(path);
+  if (ino !== cursor.ino || size < cursor.offset) {
+    cursor.ino = ino;
+    cursor.offset = 0;
+  }
+  if (size === cursor.offset) return "";
+
+  const buffer = Buffer.alloc(size - cursor.offset);
+  const fd = openSync(path, "r");
+  try {
+    readSync(fd, buffer, 0, buffer.length, cursor.offset);
+  } finally {
+    closeSync(fd);
+  }
+
+  const end = buffer.lastIndexOf("\n") + 1;
+  cursor.offset += end;
+  return buffer.subarray(0, end).toString("utf-8");
+}
+
+function watchAuthLog(path: string, callback: (events: LoginEvent[]) => void, intervalMs: number): void {
+  const { size, ino } = statSync(path);
+  const cursor: AuthLogCursor = { ino, offset: size };
+
+  failedLoginWatcher = setInterval(() => {
+    try {
+      const events = parseFailedLogins(readNewAuthLogLines(path, cursor), new Date(0));
+      if (events.length > 0) {
+        callback(events);
+      }
+    } catch (error) {
+      console.error(`Failed to read ${path}:`, error instanceof Error ? error.message : error);
+    }
+  }, intervalMs);
+}
+
+export function watchFailedLogins(callback: (events: LoginEvent[]) => void, intervalMs = 10000): void {
+  const authLog = isWindows ? null : findAuthLog();
+  if (authLog) {
+    watchAuthLog(authLog, callback, intervalMs);
+    return;
+  }
+
+  getFailedLogins(1).then((events) => {
+    seenFailures = countFailures(events);
+  });
+
+  failedLoginWatcher = setInterval(async () => {
+    const events = await getFailedLogins(1);
+    const counts = countFailures(events);
+    const fresh: LoginEvent[] = [];
+
+    for (const event of events) {
+      const key = `${event.loginTime?.getTime()}|${event.user}|${event.host}`;
+      const seen = seenFailures.get(key) ?? 0;
+      if (seen > 0) {
+        seenFailures.set(key, seen - 1);
+      } else {
+        fresh.push(event);
+      }
+    }
+    seenFailures = counts;
+
+    if (fresh.length > 0) {
+      callback(fresh);
+    }
+  }, intervalMs);
+}
+
+export function stopWatchingFailedLogins(): void {
+  if (failedLoginWatcher) {
+    clearInterval(failedLoginWatcher);
+    failedLoginWatcher = null;
+  }
+}
+
 let screenUnlockWatcher: ReturnType<typeof import("child_process").spawn> | null = null;
 
 export function watchScreenUnlock(callback: () => void): void {
@@ -1,4 +1,9 @@
 import si from "systeminformation";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { platform } from "os";
+
+const execAsync = promisify(exec);
 
 export interface SystemStats {
   timestamp: Date;
@@ -21,9 +26,11 @@ export interface SystemStats {
     usagePercent: number;
     mounts: Array<{
       mount: string;
+      type: string;
       size: number;
       used: number;
       usagePercent: number;
+      inodesPercent: number | null;
     }>;
   };
   network: {
@@ -42,6 +49,12 @@ export interface SystemStats {
       state: string;
       process: string;
     }>;
+    listening: Array<{
+      protocol: string;
+      localAddress: string;
+      localPort: number;
+      process: string;
+    }>;
   };
   processes: {
     total: number;
@@ -69,6 +82,24 @@ function formatBytes(bytes: number): number {
   return Math.round(bytes / (1024 * 1024 * 1024) * 100) / 100;
 }
 
+async function getInodeUsage(): Promise<Record<string, number>> {
+  if (platform() === "win32") return {};
+  try {
+    const { stdout } = await execAsync("df -iP 2>/dev/null");
+    const usage: Record<string, number> = {};
+    for (const line of stdout.trim().split("\n").slice(1)) {
+      const parts = line.split(/\s+/);
+      const percent = parseInt(parts[4] ?? "");
+      if (parts.length >= 6 && !isNaN(percent)) {
+        usage[parts.slice(5).join(" ")] = percent;
+      }
+    }
+    return usage;
+  } catch {
+    return {};
+  }
+}
+
 export async function getSystemStats(): Promise<SystemStats> {
   const [
     cpuLoad,
@@ -81,6 +112,7 @@ export async function getSystemStats(): Promise<SystemStats> {
     processes,
     osInfo,
     time,
+    inodes,
   ] = await Promise.all([
     si.currentLoad(),
     si.cpuTemperature(),
@@ -92,6 +124,7 @@ export async function getSystemStats(): Promise<SystemStats> {
     si.processes(),
     si.osInfo(),
     si.time(),
+    getInodeUsage(),
   ]);
 
   const totalDisk = disk.reduce((acc, d) => acc + d.size, 0);
@@ -125,9 +158,11 @@ export async function getSystemStats(): Promise<SystemStats> {
       usagePercent: Math.round((usedDisk / totalDisk) * 100 * 100) / 100,
       mounts: disk.map((d) => ({
         mount: d.mount,
+        type: d.type,
         size: formatBytes(d.size),
         used: formatBytes(d.used),
         usagePercent: Math.round(d.use * 100) / 100,
+        inodesPercent: inodes[d.mount] ?? null,
       })),
     },
     network: {
@@ -151,6 +186,17 @@ export async function getSystemStats(): Promise<SystemStats> {
           state: c.state,
           process: c.process || "unknown",
         })),
+      listening: netConnections
+        .filter((c: si.Systeminformation.NetworkConnectionsData) => c.state === "LISTEN")
+        .map((c: any) => ({
+          protocol: c.protocol,
+          localAddress: c.localAddress,
+          localPort: typeof c.localPort === "string" ? parseInt(c.localPort) : c.localPort,
+          process: c.process || "unknown",
+        }))
+        .filter((c, i, all) =>
+          all.findIndex((o) => o.protocol === c.protocol && o.localAddress === c.localAddress && o.localPort === c.localPort) === i
+        ),
     },
     processes: {
       total: processes.all,
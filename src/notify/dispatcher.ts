@@ -0,0 +1,231 @@
+import { loadConfig, type Config } from "../config/settings.ts";
+import { archiveReport, type DeliveryResult } from "../history/archive.ts";
+import type { ReportTrigger } from "../history/triggers.ts";
+import type { FullReport, ReportOptions } from "../report/generator.ts";
+import { generateHtmlReport } from "../report/html.ts";
+import { meetsSeverity, type Severity } from "../alerts/rules.ts";
+import { registerAck, forgetAck, collectFollowUps, type PendingAck } from "../alerts/ack.ts";
+import { parseDuration } from "../utils/time.ts";
+import { ALERT_TYPES, type AlertType } from "../report/generator.ts";
+import { sendReportToWhatsApp } from "./whatsapp.ts";
+import { sendReportEmail, notifyViaEmail } from "./email.ts";
+import { writeNotificationLog } from "./log.ts";
+import { sendWebhook, buildWebhookPayload } from "./webhook.ts";
+import { notifyViaNtfy } from "./ntfy.ts";
+import { notifyViaGotify } from "./gotify.ts";
+import { selectChannels, type NotificationChannel } from "./routing.ts";
+import {
+  getHold,
+  holdNotification,
+  listHeldNotifications,
+  takeHeldNotifications,
+  generateCatchUpSummary,
+} from "./quiet.ts";
+
+export interface NotifyOptions {
+  report?: FullReport;
+  reportOptions?: ReportOptions;
+  withHtml?: boolean;
+  severity?: Severity;
+  immediate?: boolean;
+}
+
+function isAlertTrigger(trigger: ReportTrigger): trigger is ReportTrigger & AlertType {
+  return (ALERT_TYPES as readonly string[]).includes(trigger);
+}
+
+function defaultSeverity(config: Config, trigger: ReportTrigger): Severity {
+  if (isAlertTrigger(trigger)) {
+    return config.notifications.severities[trigger];
+  }
+  return trigger === "unlock" ? "warning" : "info";
+}
+
+function ackHint(id: number): string {
+  return `\n\nReply "ack ${id}" to acknowledge.`;
+}
+
+export async function attemptDelivery(channel: string, send: () => Promise<boolean>): Promise<DeliveryResult> {
+  try {
+    return { channel, ok: await send() };
+  } catch (error) {
+    console.error(`[ERROR] ${channel} delivery failed:`, error);
+    return { channel, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export function recordDelivery(
+  config: Config,
+  trigger: ReportTrigger,
+  message: string,
+  report: FullReport | undefined,
+  deliveries: DeliveryResult[]
+): number | undefined {
+  if (!config.history.enabled) return undefined;
+  try {
+    return archiveReport(trigger, message, report, deliveries);
+  } catch (error) {
+    console.error("[ERROR] Could not archive report:", error);
+    return undefined;
+  }
+}
+
+export async function sendNotifications(
+  trigger: ReportTrigger,
+  message: string,
+  options: NotifyOptions = {},
+  config: Config = loadConfig()
+): Promise<DeliveryResult[]> {
+  const { report, reportOptions = config.report, withHtml = report !== undefined } = options;
+  const severity = options.severity ?? defaultSeverity(config, trigger);
+
+  const hold = options.immediate ? null : getHold(config.quietHours, trigger, severity);
+  if (hold) {
+    console.log(`[QUIET] ${trigger} notification held: ${hold.reason} until ${new Date(hold.until).toLocaleString()}`);
+    const archiveId = recordDelivery(config, trigger, message, report, []);
+    holdNotification({ time: Date.now(), trigger, severity, message, archiveId });
+    return [];
+  }
+
+  const { escalation } = config.alerts;
+  const pending =
+    escalation.enabled &&
+    isAlertTrigger(trigger) &&
+    meetsSeverity(severity, escalation.minSeverity) &&
+    routesToWhatsApp(config, trigger, severity)
+      ? registerAck(trigger, severity, message)
+      : null;
+  if (pending) message += ackHint(pending.id);
+
+  const html = report && withHtml ? generateHtmlReport(report, reportOptions) : undefined;
+  const deliveries = await deliver(config, trigger, severity, message, report, html);
+  if (pending && !deliveries.some((delivery) => delivery.channel === "whatsapp" && delivery.ok)) {
+    forgetAck(pending.id);
+  }
+  recordDelivery(config, trigger, message, report, deliveries);
+  return deliveries;
+}
+
+function routesToWhatsApp(config: Config, trigger: ReportTrigger, severity: Severity): boolean {
+  return (
+    config.whatsapp.enabled &&
+    config.whatsapp.phoneNumber !== "" &&
+    selectChannels(config.notifications.routes, trigger, severity).has("whatsapp") &&
+    meetsSeverity(severity, config.whatsapp.minSeverity)
+  );
+}
+
+async function deliver(
+  config: Config,
+  trigger: ReportTrigger,
+  severity: Severity,
+  message: string,
+  report?: FullReport,
+  html?: string
+): Promise<DeliveryResult[]> {
+  const deliveries: DeliveryResult[] = [];
+  const channels = selectChannels(config.notifications.routes, trigger, severity);
+  const routed = (channel: NotificationChannel, minSeverity: Severity) =>
+    channels.has(channel) && meetsSeverity(severity, minSeverity);
+
+  if (routesToWhatsApp(config, trigger, severity)) {
+    console.log("Sending to WhatsApp...");
+    deliveries.push(await attemptDelivery("whatsapp", () => sendReportToWhatsApp(message, undefined, config.whatsapp)));
+  }
+
+  if (config.email.enabled && config.email.to && routed("email", config.email.minSeverity)) {
+    console.log("Sending email...");
+    deliveries.push(await attemptDelivery("email", () => sendReportEmail(message, html, config.email)));
+  }
+
+  if (config.ntfy.enabled && config.ntfy.topic && routed("ntfy", config.ntfy.minSeverity)) {
+    console.log("Sending to ntfy...");
+    deliveries.push(await attemptDelivery("ntfy", () =>
+      notifyViaNtfy(message, trigger, severity, html !== undefined, config.ntfy)
+    ));
+  }
+
+  if (config.gotify.enabled && config.gotify.server && config.gotify.token && routed("gotify", config.gotify.minSeverity)) {
+    console.log("Sending to Gotify...");
+    deliveries.push(await attemptDelivery("gotify", () => notifyViaGotify(message, trigger, severity, config.gotify)));
+  }
+
+  if (config.webhook.enabled && config.webhook.urls.length > 0 && routed("webhook", config.webhook.minSeverity)) {
+    console.log("Sending webhook...");
+    const payload = buildWebhookPayload(trigger, severity, message, report);
+    deliveries.push(await attemptDelivery("webhook", () => sendWebhook(payload, config.webhook)));
+  }
+
+  if (config.notifications.log.enabled && routed("log", config.notifications.log.minSeverity)) {
+    deliveries.push(await attemptDelivery("log", () => writeNotificationLog(trigger, severity, message)));
+  }
+
+  if (deliveries.length === 0) {
+    console.log(`[ROUTE] ${trigger} notification (${severity}) not routed to any channel`);
+  }
+  return deliveries;
+}
+
+export async function flushHeldNotifications(config: Config = loadConfig(), now = new Date()): Promise<number> {
+  const pending = listHeldNotifications();
+  if (pending.length === 0) return 0;
+  if (pending.some((item) => getHold(config.quietHours, item.trigger, item.severity, now))) return 0;
+
+  const held = takeHeldNotifications();
+  console.log(`[QUIET] Window ended - sending catch-up summary for ${held.length} notification(s)`);
+  await sendNotifications("catch-up", generateCatchUpSummary(held, config.quietHours.action), {}, config);
+  return held.length;
+}
+
+async function escalate(config: Config, alert: PendingAck, message: string): Promise<DeliveryResult[]> {
+  const { escalation } = config.alerts;
+  const deliveries: DeliveryResult[] = [];
+
+  if (escalation.email && config.email.enabled && config.email.to) {
+    deliveries.push(await attemptDelivery("email", () =>
+      notifyViaEmail(`Unacknowledged alert #${alert.id}`, message, config.email)
+    ));
+  }
+  if (escalation.phoneNumber) {
+    deliveries.push(
+      await attemptDelivery("whatsapp", () => sendReportToWhatsApp(message, escalation.phoneNumber, config.whatsapp))
+    );
+  }
+  if (config.notifications.log.enabled) {
+    deliveries.push(await attemptDelivery("log", () => writeNotificationLog(alert.trigger, alert.severity, message)));
+  }
+  if (deliveries.length === 0) {
+    console.log(`[ESCALATE] Alert #${alert.id} has no escalation channel configured`);
+  }
+  return deliveries;
+}
+
+export async function followUpAlerts(config: Config = loadConfig(), now = new Date()): Promise<number> {
+  const { escalation } = config.alerts;
+  if (!escalation.enabled) return 0;
+
+  const { resend, escalate: unanswered } = collectFollowUps(
+    parseDuration(escalation.resendAfter) ?? 0,
+    escalation.maxResends,
+    (alert) => getHold(config.quietHours, alert.trigger, alert.severity, now) !== null,
+    now.getTime()
+  );
+
+  for (const alert of resend) {
+    console.log(`[ACK] Alert #${alert.id} not acknowledged - reminder ${alert.resends}/${escalation.maxResends}`);
+    const message =
+      `REMINDER ${alert.resends}/${escalation.maxResends}: alert #${alert.id} has not been acknowledged\n\n` +
+      `${alert.message}${ackHint(alert.id)}`;
+    recordDelivery(config, alert.trigger, message, undefined, await deliver(config, alert.trigger, alert.severity, message));
+  }
+
+  for (const alert of unanswered) {
+    console.log(`[ESCALATE] Alert #${alert.id} not acknowledged after ${alert.resends} reminder(s) - escalating`);
+    const message =
+      `ESCALATED: alert #${alert.id} from ${new Date(alert.sentAt).toLocaleString()} ` +
+      `was not acknowledged after ${alert.resends} reminder(s)\n\n${alert.message}${ackHint(alert.id)}`;
+    recordDelivery(config, alert.trigger, message, undefined, await escalate(config, alert, message));
+  }
+
+  return resend.length + unanswered.length;
+}
@@ -1,23 +1,30 @@
 import nodemailer from "nodemailer";
 import type { Transporter } from "nodemailer";
-import { loadConfig } from "../config/settings.ts";
+import { loadConfig, type Config } from "../config/settings.ts";
+import { resolveSecret } from "../config/secrets.ts";
 
 let transporter: Transporter | null = null;
 
-export function initEmailTransporter(): Transporter | null {
-  const config = loadConfig();
+export function initEmailTransporter(settings: Config["email"] = loadConfig().email): Transporter | null {
+  if (!settings.enabled || !settings.smtp.user || !settings.smtp.pass) {
+    return null;
+  }
 
-  if (!config.email.enabled || !config.email.smtp.user || !config.email.smtp.pass) {
+  let pass: string;
+  try {
+    pass = resolveSecret(settings.smtp.pass);
+  } catch (error) {
+    console.error("Failed to resolve SMTP password:", error instanceof Error ? error.message : error);
     return null;
   }
 
   transporter = nodemailer.createTransport({
-    host: config.email.smtp.host,
-    port: config.email.smtp.port,
-    secure: config.email.smtp.secure,
+    host: settings.smtp.host,
+    port: settings.smtp.port,
+    secure: settings.smtp.secure,
     auth: {
-      user: config.email.smtp.user,
-      pass: config.email.smtp.pass,
+      user: settings.smtp.user,
+      pass,
     },
   });
 
@@ -27,29 +34,28 @@ export function initEmailTransporter(): Transporter | null {
 export async function sendEmail(
   subject: string,
   body: string,
-  isHtml: boolean = false
+  isHtml: boolean = false,
+  htmlAlternative?: string,
+  settings: Config["email"] = loadConfig().email
 ): Promise<boolean> {
-  const config = loadConfig();
-
-  if (!config.email.enabled) {
+  if (!settings.enabled) {
     console.log("Email notifications are disabled");
     return false;
   }
 
+  transporter = initEmailTransporter(settings);
   if (!transporter) {
-    transporter = initEmailTransporter();
-    if (!transporter) {
-      console.error("Failed to initialize email transporter");
-      return false;
-    }
+    console.error("Failed to initialize email transporter");
+    return false;
   }
 
   try {
     await transporter.sendMail({
-      from: config.email.smtp.user,
-      to: config.email.to,
+      from: settings.smtp.user,
+      to: settings.to,
       subject: subject,
       [isHtml ? "html" : "text"]: body,
+      ...(!isHtml && htmlAlternative ? { html: htmlAlternative } : {}),
     });
     return true;
   } catch (error) {
@@ -60,28 +66,29 @@ export async function sendEmail(
 
 export async function notifyViaEmail(
   subject: string,
-  message: string
+  message: string,
+  settings: Config["email"] = loadConfig().email
 ): Promise<boolean> {
-  return await sendEmail(`System Monitor: ${subject}`, message);
+  return await sendEmail(`System Monitor: ${subject}`, message, false, undefined, settings);
 }
 
-export async function sendReportEmail(report: string): Promise<boolean> {
+export async function sendReportEmail(
+  report: string,
+  html?: string,
+  settings: Config["email"] = loadConfig().email
+): Promise<boolean> {
   const hostname = process.env.HOSTNAME || "Unknown";
   const subject = `System Report - ${hostname} - ${new Date().toLocaleString()}`;
-  return await sendEmail(subject, report);
+  return await sendEmail(subject, report, false, html, settings);
 }
 
-export async function verifyEmailConfig(): Promise<boolean> {
-  const config = loadConfig();
-
-  if (!config.email.enabled || !config.email.smtp.user) {
+export async function verifyEmailConfig(settings: Config["email"] = loadConfig().email): Promise<boolean> {
+  if (!settings.enabled || !settings.smtp.user) {
     return false;
   }
 
-  if (!transporter) {
-    transporter = initEmailTransporter();
-    if (!transporter) return false;
-  }
+  transporter = initEmailTransporter(settings);
+  if (!transporter) return false;
 
   try {
     await transporter.verify();
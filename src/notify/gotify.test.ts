@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { DEFAULT_GOTIFY, notifyViaGotify, type GotifySettings } from "./gotify.ts";
+
+interface Received {
+  pathname: string;
+  headers: Headers;
+  body: string;
+}
+
+let server: ReturnType<typeof Bun.serve>;
+const received: Received[] = [];
+
+function settings(overrides: Partial<GotifySettings> = {}): GotifySettings {
+  return { ...DEFAULT_GOTIFY, enabled: true, server: `http://localhost:${server.port}/`, token: "AbCdEf", ...overrides };
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      received.push({ pathname, headers: request.headers, body: await request.text() });
+      if (request.headers.get("x-gotify-key") !== "AbCdEf") return new Response("unauthorized", { status: 401 });
+      return new Response("{}");
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  received.length = 0;
+});
+
+describe("notifyViaGotify", () => {
+  test("posts the message with the app token and mapped priority", async () => {
+    expect(await notifyViaGotify("[WARNING] RAM ALERT\nRAM usage: 91%", "threshold", "warning", settings())).toBe(true);
+
+    expect(received).toHaveLength(1);
+    const [{ pathname, headers, body }] = received as [Received];
+    expect(pathname).toBe("/message");
+    expect(headers.get("x-gotify-key")).toBe("AbCdEf");
+    expect(JSON.parse(body)).toEqual({ title: "RAM ALERT", message: "RAM usage: 91%", priority: 6 });
+  });
+
+  test("uses the report priority for informational reports", async () => {
+    await notifyViaGotify("System Report\nall good", "scheduled", "info", settings());
+    expect(JSON.parse(received[0]!.body).priority).toBe(2);
+  });
+
+  test("reports a rejected token as a failed delivery", async () => {
+    expect(await notifyViaGotify("hello", "manual", "info", settings({ token: "wrong" }))).toBe(false);
+  });
+
+  test("sends nothing without a token", async () => {
+    expect(await notifyViaGotify("hello", "manual", "info", settings({ token: "" }))).toBe(false);
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { loadConfig } from "../config/settings.ts";
+import { resolveSecret } from "../config/secrets.ts";
+import type { Severity } from "../alerts/rules.ts";
+import type { ReportTrigger } from "../history/triggers.ts";
+import { splitPushMessage, pushPriority, PUSH_TIMEOUT_MS, type PushPriorities } from "./push.ts";
+
+export interface GotifySettings {
+  enabled: boolean;
+  server: string;
+  token: string;
+  minSeverity: Severity;
+}
+
+export const DEFAULT_GOTIFY: GotifySettings = {
+  enabled: false,
+  server: "",
+  token: "",
+  minSeverity: "info",
+};
+
+const GOTIFY_PRIORITIES: PushPriorities = { report: 2, info: 4, warning: 6, critical: 9 };
+
+export async function notifyViaGotify(
+  message: string,
+  trigger: ReportTrigger = "manual",
+  severity: Severity = "info",
+  gotify: GotifySettings = loadConfig().gotify
+): Promise<boolean> {
+
+  if (!gotify.enabled || !gotify.server || !gotify.token) {
+    console.log("Gotify notifications are disabled or server/token not set");
+    return false;
+  }
+
+  const { title, body } = splitPushMessage(message);
+  const key = resolveSecret(gotify.token);
+
+  try {
+    const response = await fetch(`${gotify.server.replace(/\/+$/, "")}/message`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Gotify-Key": key },
+      body: JSON.stringify({ title, message: body, priority: pushPriority(trigger, severity, GOTIFY_PRIORITIES) }),
+      signal: AbortSignal.timeout(PUSH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.error(`Gotify responded with ${response.status} ${response.statusText}`);
+    }
+    return response.ok;
+  } catch (error) {
+    console.error("Gotify delivery failed:", error instanceof Error ? error.message : error);
+    return false;
+  }
+}
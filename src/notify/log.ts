@@ -0,0 +1,29 @@
+import { appendFileSync, existsSync, renameSync, statSync } from "fs";
+import { join } from "path";
+import { getConfigDir, ensureConfigDir } from "../config/paths.ts";
+import type { Severity } from "../alerts/rules.ts";
+import type { ReportTrigger } from "../history/triggers.ts";
+
+const MAX_LOG_BYTES = 1024 * 1024;
+
+export function getNotificationLogFile(): string {
+  return join(getConfigDir(), "notifications.log");
+}
+
+export async function writeNotificationLog(
+  trigger: ReportTrigger,
+  severity: Severity,
+  message: string
+): Promise<boolean> {
+  ensureConfigDir();
+  const file = getNotificationLogFile();
+  if (existsSync(file) && statSync(file).size > MAX_LOG_BYTES) {
+    renameSync(file, `${file}.1`);
+  }
+
+  const body = message.split("\n").map((line) => `    ${line}`.trimEnd()).join("\n");
+  appendFileSync(file, `${new Date().toISOString()} [${severity.toUpperCase()}] ${trigger}\n${body}\n\n`, {
+    mode: 0o600,
+  });
+  return true;
+}
@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { DEFAULT_NTFY, notifyViaNtfy, type NtfySettings } from "./ntfy.ts";
+
+interface Received {
+  method: string;
+  pathname: string;
+  headers: Headers;
+  body: string;
+}
+
+let server: ReturnType<typeof Bun.serve>;
+const received: Received[] = [];
+let rejectAttachments = false;
+
+function decodeHeader(value: string | null): string | null {
+  const encoded = value?.match(/^=\?UTF-8\?B\?(.*)\?=$/);
+  return encoded ? Buffer.from(encoded[1]!, "base64").toString("utf-8") : value;
+}
+
+function settings(overrides: Partial<NtfySettings> = {}): NtfySettings {
+  return { ...DEFAULT_NTFY, enabled: true, server: `http://localhost:${server.port}/`, topic: "alerts", ...overrides };
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      received.push({ method: request.method, pathname, headers: request.headers, body: await request.text() });
+      if (request.method === "PUT" && rejectAttachments) return new Response("too large", { status: 413 });
+      return new Response("ok");
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  received.length = 0;
+  rejectAttachments = false;
+});
+
+describe("notifyViaNtfy", () => {
+  test("publishes title, body and priority as JSON", async () => {
+    const message = "[CRITICAL] CPU ALERT\nCPU usage: 97%";
+    const sent = await notifyViaNtfy(message, "threshold", "critical", false, settings({ token: "tk_abc" }));
+
+    expect(sent).toBe(true);
+    expect(received).toHaveLength(1);
+    const [{ method, pathname, headers, body }] = received as [Received];
+    expect([method, pathname]).toEqual(["POST", "/"]);
+    expect(headers.get("authorization")).toBe("Bearer tk_abc");
+    expect(JSON.parse(body)).toEqual({ topic: "alerts", title: "CPU ALERT", message: "CPU usage: 97%", priority: 5 });
+  });
+
+  test("attaches the full report with a summary in the headers", async () => {
+    const report = ["System Report", ...Array.from({ length: 12 }, (_, i) => `line ${i + 1}`)].join("\n");
+    expect(await notifyViaNtfy(report, "scheduled", "info", true, settings())).toBe(true);
+
+    expect(received).toHaveLength(1);
+    const [{ method, pathname, headers, body }] = received as [Received];
+    expect([method, pathname]).toEqual(["PUT", "/alerts"]);
+    expect(headers.get("filename")).toMatch(/^report-\d{8}-\d{4}\.txt$/);
+    expect(headers.get("title")).toBe("System Report");
+    expect(headers.get("priority")).toBe("2");
+    expect(decodeHeader(headers.get("message"))).toBe(
+      "line 1\nline 2\nline 3\nline 4\nline 5\nline 6\nline 7\nline 8\n..."
+    );
+    expect(body).toBe(report);
+  });
+
+  test("falls back to the summary when the attachment is rejected", async () => {
+    rejectAttachments = true;
+    expect(await notifyViaNtfy("Rapport\nÉtat: ok", "manual", "info", true, settings())).toBe(true);
+
+    expect(received.map((r) => r.method)).toEqual(["PUT", "POST"]);
+    expect(received[0]!.headers.get("message")).toMatch(/^=\?UTF-8\?B\?.+\?=$/);
+    expect(decodeHeader(received[0]!.headers.get("message"))).toBe("État: ok");
+    expect(JSON.parse(received[1]!.body)).toMatchObject({ title: "Rapport", message: "État: ok" });
+  });
+
+  test("sends nothing without a topic", async () => {
+    expect(await notifyViaNtfy("hello", "manual", "info", false, settings({ topic: "" }))).toBe(false);
+    expect(received).toHaveLength(0);
+  });
+});
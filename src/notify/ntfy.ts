@@ -0,0 +1,97 @@
+import { loadConfig } from "../config/settings.ts";
+import { resolveSecret } from "../config/secrets.ts";
+import type { Severity } from "../alerts/rules.ts";
+import type { ReportTrigger } from "../history/triggers.ts";
+import {
+  splitPushMessage,
+  pushPriority,
+  attachmentName,
+  PUSH_TIMEOUT_MS,
+  type PushPriorities,
+} from "./push.ts";
+
+export interface NtfySettings {
+  enabled: boolean;
+  server: string;
+  topic: string;
+  token: string;
+  minSeverity: Severity;
+}
+
+export const DEFAULT_NTFY: NtfySettings = {
+  enabled: false,
+  server: "https://ntfy.sh",
+  topic: "",
+  token: "",
+  minSeverity: "info",
+};
+
+const NTFY_PRIORITIES: PushPriorities = { report: 2, info: 3, warning: 4, critical: 5 };
+const SUMMARY_LINES = 8;
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+function summarize(body: string): string {
+  const lines = body.split("\n");
+  return lines.length > SUMMARY_LINES ? `${lines.slice(0, SUMMARY_LINES).join("\n")}\n...` : body;
+}
+
+export async function notifyViaNtfy(
+  message: string,
+  trigger: ReportTrigger = "manual",
+  severity: Severity = "info",
+  attachReport = false,
+  ntfy: NtfySettings = loadConfig().ntfy
+): Promise<boolean> {
+
+  if (!ntfy.enabled || !ntfy.topic) {
+    console.log("ntfy notifications are disabled or topic not set");
+    return false;
+  }
+
+  const { title, body } = splitPushMessage(message);
+  const priority = pushPriority(trigger, severity, NTFY_PRIORITIES);
+  const server = ntfy.server.replace(/\/+$/, "");
+  const auth: Record<string, string> = ntfy.token ? { Authorization: `Bearer ${resolveSecret(ntfy.token)}` } : {};
+
+  try {
+    if (attachReport) {
+      const attached = await fetch(`${server}/${ntfy.topic}`, {
+        method: "PUT",
+        headers: {
+          ...auth,
+          Title: encodeHeader(title),
+          Message: encodeHeader(summarize(body)),
+          Priority: String(priority),
+          Filename: attachmentName(),
+        },
+        body: message,
+        signal: AbortSignal.timeout(PUSH_TIMEOUT_MS),
+      });
+      if (attached.ok) return true;
+      console.error(`ntfy rejected the report attachment (${attached.status}) - sending the summary only`);
+    }
+
+    const response = await fetch(server, {
+      method: "POST",
+      headers: { ...auth, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        topic: ntfy.topic,
+        title,
+        message: attachReport ? summarize(body) : body,
+        priority,
+      }),
+      signal: AbortSignal.timeout(PUSH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.error(`ntfy responded with ${response.status} ${response.statusText}`);
+    }
+    return response.ok;
+  } catch (error) {
+    console.error("ntfy delivery failed:", error instanceof Error ? error.message : error);
+    return false;
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { attachmentName, pushPriority, splitPushMessage, type PushPriorities } from "./push.ts";
+
+const PRIORITIES: PushPriorities = { report: 1, info: 2, warning: 3, critical: 4 };
+
+describe("splitPushMessage", () => {
+  test("uses the first line without its severity tag as the title", () => {
+    expect(splitPushMessage("[CRITICAL] BRUTE FORCE ALERT\n\n5 failed logins\nfrom 10.0.0.5\n")).toEqual({
+      title: "BRUTE FORCE ALERT",
+      body: "5 failed logins\nfrom 10.0.0.5",
+    });
+  });
+
+  test("repeats the title as the body for one-line messages", () => {
+    expect(splitPushMessage("Disk usage on /data: 95%")).toEqual({
+      title: "Disk usage on /data: 95%",
+      body: "Disk usage on /data: 95%",
+    });
+    expect(splitPushMessage("[INFO]\nbody")).toEqual({ title: "System Monitor", body: "body" });
+  });
+});
+
+describe("pushPriority", () => {
+  test("uses the severity for alerts and the report priority for info reports", () => {
+    expect(pushPriority("threshold", "critical", PRIORITIES)).toBe(4);
+    expect(pushPriority("login", "info", PRIORITIES)).toBe(2);
+    expect(pushPriority("scheduled", "info", PRIORITIES)).toBe(1);
+    expect(pushPriority("scheduled", "warning", PRIORITIES)).toBe(3);
+  });
+});
+
+describe("attachmentName", () => {
+  test("stamps the UTC minute into the file name", () => {
+    expect(attachmentName(new Date("2026-10-19T08:05:42Z"))).toBe("report-20261019-0805.txt");
+  });
+});
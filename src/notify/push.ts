@@ -0,0 +1,30 @@
+import type { Severity } from "../alerts/rules.ts";
+import type { ReportTrigger } from "../history/triggers.ts";
+import { ALERT_TYPES } from "../report/generator.ts";
+
+export interface PushMessage {
+  title: string;
+  body: string;
+}
+
+export type PushPriorities = Record<Severity | "report", number>;
+
+export const PUSH_TIMEOUT_MS = 10000;
+
+export function splitPushMessage(message: string): PushMessage {
+  const [first = "", ...rest] = message.trim().split("\n");
+  const title = first.replace(/^\[(INFO|WARNING|CRITICAL)\]\s*/, "").trim() || "System Monitor";
+  const body = rest.join("\n").trim();
+  return { title, body: body || title };
+}
+
+export function pushPriority(trigger: ReportTrigger, severity: Severity, priorities: PushPriorities): number {
+  return (ALERT_TYPES as readonly string[]).includes(trigger) || severity !== "info"
+    ? priorities[severity]
+    : priorities.report;
+}
+
+export function attachmentName(now = new Date()): string {
+  const stamp = now.toISOString().slice(0, 16).replace(/[-:]/g, "").replace("T", "-");
+  return `report-${stamp}.txt`;
+}
@@ -0,0 +1,161 @@
+import { existsSync, readFileSync, writeFileSync, chmodSync, unlinkSync } from "fs";
+import { join } from "path";
+import { getConfigDir, ensureConfigDir } from "../config/paths.ts";
+import { meetsSeverity, type Severity } from "../alerts/rules.ts";
+import type { ReportTrigger } from "../history/triggers.ts";
+import { activeQuietWindow, type QuietAction, type QuietHours } from "./schedule.ts";
+
+export const HOLDABLE_TRIGGERS = [
+  "scheduled",
+  "login",
+  "unlock",
+  "threshold",
+  "suspicious",
+  "brute-force",
+  "anomaly",
+  "digest",
+] as const;
+
+export type HoldableTrigger = (typeof HOLDABLE_TRIGGERS)[number];
+
+export interface Snooze {
+  until: number;
+  triggers: HoldableTrigger[];
+  reason: string;
+}
+
+export interface Hold {
+  reason: string;
+  until: number;
+}
+
+export interface HeldNotification {
+  time: number;
+  trigger: ReportTrigger;
+  severity: Severity;
+  message: string;
+  archiveId?: number;
+}
+
+export function isHoldableTrigger(trigger: string): trigger is HoldableTrigger {
+  return (HOLDABLE_TRIGGERS as readonly string[]).includes(trigger);
+}
+
+export function parseTriggerList(list: string): { triggers: HoldableTrigger[]; unknown: string[] } {
+  const names = list.split(",").map((name) => name.trim()).filter(Boolean);
+  return {
+    triggers: names.filter(isHoldableTrigger),
+    unknown: names.filter((name) => !isHoldableTrigger(name)),
+  };
+}
+
+function readJson<T>(file: string, fallback: T): T {
+  if (!existsSync(file)) return fallback;
+  try {
+    return JSON.parse(readFileSync(file, "utf-8"));
+  } catch {
+    console.error(`[WARN] Could not read ${file} - ignoring it`);
+    return fallback;
+  }
+}
+
+function writeJson(file: string, data: unknown): void {
+  ensureConfigDir();
+  writeFileSync(file, JSON.stringify(data, null, 2), { mode: 0o600 });
+  chmodSync(file, 0o600);
+}
+
+export function getSnoozeFile(): string {
+  return join(getConfigDir(), "snooze.json");
+}
+
+export function getHeldFile(): string {
+  return join(getConfigDir(), "held-notifications.json");
+}
+
+export function getSnooze(now = Date.now()): Snooze | null {
+  const snooze = readJson<Snooze | null>(getSnoozeFile(), null);
+  return snooze && snooze.until > now ? snooze : null;
+}
+
+export function setSnooze(durationMs: number, triggers: HoldableTrigger[] = [], reason = "", now = Date.now()): Snooze {
+  const snooze: Snooze = { until: now + durationMs, triggers, reason };
+  writeJson(getSnoozeFile(), snooze);
+  return snooze;
+}
+
+export function clearSnooze(): boolean {
+  const active = getSnooze() !== null;
+  if (existsSync(getSnoozeFile())) unlinkSync(getSnoozeFile());
+  return active;
+}
+
+export function getHold(
+  quiet: QuietHours,
+  trigger: ReportTrigger,
+  severity: Severity,
+  now = new Date()
+): Hold | null {
+  if (!isHoldableTrigger(trigger)) return null;
+
+  const snooze = getSnooze(now.getTime());
+  if (snooze && severity !== "critical" && (snooze.triggers.length === 0 || snooze.triggers.includes(trigger))) {
+    return { reason: snooze.reason ? `snoozed (${snooze.reason})` : "snoozed", until: snooze.until };
+  }
+
+  const quietWindow = activeQuietWindow(quiet, now);
+  if (quietWindow && !meetsSeverity(severity, quietWindow.window.allow)) {
+    return { reason: "quiet hours", until: quietWindow.until };
+  }
+  return null;
+}
+
+export function describeSnooze(snooze: Snooze): string {
+  const scope = snooze.triggers.length > 0 ? snooze.triggers.join(", ") : "all non-critical notifications";
+  return `Snoozed until ${new Date(snooze.until).toLocaleString()}: ${scope}${snooze.reason ? ` (${snooze.reason})` : ""}`;
+}
+
+export function listHeldNotifications(): HeldNotification[] {
+  return readJson<HeldNotification[]>(getHeldFile(), []);
+}
+
+export function holdNotification(notification: HeldNotification): void {
+  writeJson(getHeldFile(), [...listHeldNotifications(), notification]);
+}
+
+export function takeHeldNotifications(): HeldNotification[] {
+  const held = listHeldNotifications();
+  if (existsSync(getHeldFile())) unlinkSync(getHeldFile());
+  return held;
+}
+
+function detailLines(message: string): string[] {
+  const [, ...rest] = message.split("\n");
+  return rest.filter((line) => line.trim() && !line.startsWith("Generated:"));
+}
+
+export function generateCatchUpSummary(held: HeldNotification[], action: QuietAction): string {
+  const lines: string[] = [];
+  const first = Math.min(...held.map((item) => item.time));
+  const last = Math.max(...held.map((item) => item.time));
+
+  lines.push("CATCH-UP SUMMARY");
+  lines.push(
+    `${held.length} notification(s) ${action === "queue" ? "held" : "dropped"} ` +
+      `between ${new Date(first).toLocaleString()} and ${new Date(last).toLocaleString()}`
+  );
+  lines.push("");
+
+  for (const item of held) {
+    const title = item.message.split("\n")[0]?.replace(/^\[\w+\]\s*/, "").trim() || item.trigger;
+    const reference = item.archiveId !== undefined ? ` (denoo reports show ${item.archiveId})` : "";
+    lines.push(`- ${new Date(item.time).toLocaleTimeString()} [${item.severity.toUpperCase()}] ${title}${reference}`);
+    if (action === "queue" && (item.trigger === "threshold" || item.trigger === "suspicious")) {
+      lines.push(...detailLines(item.message).map((line) => `    ${line}`));
+    }
+  }
+
+  lines.push("");
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  return lines.join("\n");
+}
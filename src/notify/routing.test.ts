@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { NOTIFICATION_CHANNELS, routeMatches, selectChannels, type NotificationRoute } from "./routing.ts";
+
+const ROUTES: NotificationRoute[] = [
+  { triggers: ["brute-force"], channels: ["whatsapp", "ntfy"] },
+  { minSeverity: "critical", channels: ["whatsapp", "email"] },
+  { triggers: ["scheduled", "digest"], channels: ["email"] },
+];
+
+describe("routeMatches", () => {
+  test("matches any trigger and severity when the route has no conditions", () => {
+    expect(routeMatches({ channels: ["log"] }, "manual", "info")).toBe(true);
+    expect(routeMatches({ triggers: [], channels: ["log"] }, "manual", "info")).toBe(true);
+  });
+
+  test("requires both the trigger and the minimum severity", () => {
+    const route: NotificationRoute = { triggers: ["threshold"], minSeverity: "warning", channels: ["ntfy"] };
+    expect(routeMatches(route, "threshold", "critical")).toBe(true);
+    expect(routeMatches(route, "threshold", "info")).toBe(false);
+    expect(routeMatches(route, "anomaly", "critical")).toBe(false);
+  });
+});
+
+describe("selectChannels", () => {
+  test("uses the first matching route", () => {
+    expect([...selectChannels(ROUTES, "brute-force", "critical")]).toEqual(["whatsapp", "ntfy"]);
+    expect([...selectChannels(ROUTES, "threshold", "critical")]).toEqual(["whatsapp", "email"]);
+    expect([...selectChannels(ROUTES, "digest", "info")]).toEqual(["email"]);
+  });
+
+  test("falls back to every channel when nothing matches", () => {
+    expect([...selectChannels(ROUTES, "threshold", "warning")]).toEqual([...NOTIFICATION_CHANNELS]);
+    expect([...selectChannels([], "manual", "info")]).toEqual([...NOTIFICATION_CHANNELS]);
+  });
+});
@@ -0,0 +1,27 @@
+import { meetsSeverity, type Severity } from "../alerts/rules.ts";
+import type { ReportTrigger } from "../history/triggers.ts";
+
+export const NOTIFICATION_CHANNELS = ["whatsapp", "email", "ntfy", "gotify", "webhook", "log"] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export interface NotificationRoute {
+  triggers?: ReportTrigger[];
+  minSeverity?: Severity;
+  channels: NotificationChannel[];
+}
+
+export function routeMatches(route: NotificationRoute, trigger: ReportTrigger, severity: Severity): boolean {
+  if (route.triggers && route.triggers.length > 0 && !route.triggers.includes(trigger)) return false;
+  if (route.minSeverity && !meetsSeverity(severity, route.minSeverity)) return false;
+  return true;
+}
+
+export function selectChannels(
+  routes: NotificationRoute[],
+  trigger: ReportTrigger,
+  severity: Severity
+): Set<NotificationChannel> {
+  const route = routes.find((candidate) => routeMatches(candidate, trigger, severity));
+  return new Set(route ? route.channels : NOTIFICATION_CHANNELS);
+}
@@ -0,0 +1,62 @@
+import type { Severity } from "../alerts/rules.ts";
+
+export const QUIET_ACTIONS = ["queue", "drop"] as const;
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export type QuietAction = (typeof QUIET_ACTIONS)[number];
+
+export interface QuietWindow {
+  days: number[];
+  start: string;
+  end: string;
+  allow: Severity;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  action: QuietAction;
+  windows: QuietWindow[];
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  action: "queue",
+  windows: [{ days: [0, 1, 2, 3, 4, 5, 6], start: "22:00", end: "07:00", allow: "critical" }],
+};
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours! * 60 + minutes!;
+}
+
+function at(day: Date, minutes: number, offsetDays = 0): number {
+  const date = new Date(day);
+  date.setDate(date.getDate() + offsetDays);
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date.getTime();
+}
+
+function windowEnd(window: QuietWindow, now: Date): number | null {
+  const start = minutesOf(window.start);
+  const end = minutesOf(window.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  const today = now.getDay();
+  const yesterday = (today + 6) % 7;
+
+  if (start < end) {
+    return window.days.includes(today) && current >= start && current < end ? at(now, end) : null;
+  }
+  if (window.days.includes(today) && current >= start) return at(now, end, 1);
+  if (window.days.includes(yesterday) && current < end) return at(now, end);
+  return null;
+}
+
+export function activeQuietWindow(quiet: QuietHours, now = new Date()): { window: QuietWindow; until: number } | null {
+  if (!quiet.enabled) return null;
+  for (const window of quiet.windows) {
+    const until = windowEnd(window, now);
+    if (until !== null) return { window, until };
+  }
+  return null;
+}
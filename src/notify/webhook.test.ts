@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  buildWebhookPayload,
+  sendWebhook,
+  signWebhookBody,
+  SIGNATURE_HEADER,
+  DEFAULT_WEBHOOK,
+  type WebhookSettings,
+} from "./webhook.ts";
+
+interface Received {
+  headers: Headers;
+  body: string;
+}
+
+let server: ReturnType<typeof Bun.serve>;
+const received: Received[] = [];
+
+function settings(path: string, overrides: Partial<WebhookSettings> = {}): WebhookSettings {
+  return {
+    ...DEFAULT_WEBHOOK,
+    enabled: true,
+    urls: [`http://localhost:${server.port}${path}`],
+    ...overrides,
+  };
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      received.push({ headers: request.headers, body: await request.text() });
+      const { pathname } = new URL(request.url);
+      if (pathname === "/fail") return new Response("nope", { status: 500 });
+      if (pathname === "/slow") await Bun.sleep(1000);
+      return new Response("ok");
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe("sendWebhook", () => {
+  test("signs the body and sends custom headers", async () => {
+    received.length = 0;
+    const payload = buildWebhookPayload("threshold", "warning", "[WARNING] RESOURCE THRESHOLD ALERT");
+    const sent = await sendWebhook(
+      payload,
+      settings("/hook", { secret: "s3cret", headers: { Authorization: "Bearer abc", "X-Source": "denoo-test" } })
+    );
+
+    expect(sent).toBe(true);
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received as [Received];
+    expect(headers.get(SIGNATURE_HEADER)).toBe(signWebhookBody(body, "s3cret"));
+    expect(headers.get("authorization")).toBe("Bearer abc");
+    expect(headers.get("x-source")).toBe("denoo-test");
+    expect(headers.get("content-type")).toBe("application/json");
+
+    const json = JSON.parse(body);
+    expect(json).toMatchObject({ type: "alert", trigger: "threshold", severity: "warning" });
+    expect(typeof json.host).toBe("string");
+    expect(Number.isNaN(Date.parse(json.timestamp))).toBe(false);
+  });
+
+  test("marks non-alert triggers as reports and omits the signature without a secret", async () => {
+    received.length = 0;
+    expect(await sendWebhook(buildWebhookPayload("scheduled", "info", "SYSTEM MONITOR REPORT"), settings("/hook"))).toBe(
+      true
+    );
+    expect(JSON.parse(received[0]!.body).type).toBe("report");
+    expect(received[0]!.headers.get(SIGNATURE_HEADER)).toBeNull();
+  });
+
+  test("returns false on a non-2xx response", async () => {
+    expect(await sendWebhook(buildWebhookPayload("manual", "info", "test"), settings("/fail"))).toBe(false);
+  });
+
+  test("returns false when the listener does not answer in time", async () => {
+    expect(
+      await sendWebhook(buildWebhookPayload("manual", "info", "test"), settings("/slow", { timeout: "0.2s" }))
+    ).toBe(false);
+  });
+
+  test("returns false when disabled", async () => {
+    expect(
+      await sendWebhook(buildWebhookPayload("manual", "info", "test"), settings("/hook", { enabled: false }))
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { createHmac } from "crypto";
+import { hostname } from "os";
+import { loadConfig } from "../config/settings.ts";
+import { resolveSecret } from "../config/secrets.ts";
+import type { Severity } from "../alerts/rules.ts";
+import type { ReportTrigger } from "../history/triggers.ts";
+import { ALERT_TYPES, type FullReport } from "../report/generator.ts";
+import { parseDuration } from "../utils/time.ts";
+
+export interface WebhookSettings {
+  enabled: boolean;
+  urls: string[];
+  secret: string;
+  headers: Record<string, string>;
+  timeout: string;
+  minSeverity: Severity;
+}
+
+export interface WebhookPayload {
+  type: "alert" | "report";
+  trigger: ReportTrigger;
+  severity: Severity;
+  host: string;
+  timestamp: string;
+  message: string;
+  report?: FullReport;
+}
+
+export const DEFAULT_WEBHOOK: WebhookSettings = {
+  enabled: false,
+  urls: [],
+  secret: "",
+  headers: {},
+  timeout: "10s",
+  minSeverity: "info",
+};
+
+export const SIGNATURE_HEADER = "X-Denoo-Signature";
+
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+export function buildWebhookPayload(
+  trigger: ReportTrigger,
+  severity: Severity,
+  message: string,
+  report?: FullReport
+): WebhookPayload {
+  return {
+    type: (ALERT_TYPES as readonly string[]).includes(trigger) ? "alert" : "report",
+    trigger,
+    severity,
+    host: hostname(),
+    timestamp: new Date().toISOString(),
+    message,
+    ...(report ? { report } : {}),
+  };
+}
+
+export async function postWebhook(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number
+): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "User-Agent": "denoo", ...headers },
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      console.error(`Webhook ${url} responded with ${response.status} ${response.statusText}`);
+    }
+    return response.ok;
+  } catch (error) {
+    console.error(`Webhook ${url} failed:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+export async function sendWebhook(
+  payload: WebhookPayload,
+  settings: WebhookSettings = loadConfig().webhook
+): Promise<boolean> {
+  if (!settings.enabled || settings.urls.length === 0) {
+    console.log("Webhook notifications are disabled or no URL is set");
+    return false;
+  }
+
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(settings.headers)) {
+    headers[name] = resolveSecret(value);
+  }
+  if (settings.secret) {
+    headers[SIGNATURE_HEADER] = signWebhookBody(body, resolveSecret(settings.secret));
+  }
+
+  const timeoutMs = parseDuration(settings.timeout) ?? 10000;
+  const results = await Promise.all(settings.urls.map((url) => postWebhook(url, body, headers, timeoutMs)));
+  return results.every(Boolean);
+}
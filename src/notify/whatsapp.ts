@@ -3,12 +3,16 @@ import {
   isWhatsAppReady,
   initWhatsApp,
 } from "../auth/whatsapp.ts";
-import { loadConfig } from "../config/settings.ts";
+import { loadConfig, type Config } from "../config/settings.ts";
 
-export async function notifyViaWhatsApp(message: string): Promise<boolean> {
-  const config = loadConfig();
+export async function notifyViaWhatsApp(
+  message: string,
+  phoneNumber?: string,
+  settings: Config["whatsapp"] = loadConfig().whatsapp
+): Promise<boolean> {
+  const to = phoneNumber || settings.phoneNumber;
 
-  if (!config.whatsapp.enabled || !config.whatsapp.phoneNumber) {
+  if (!settings.enabled || !to) {
     console.log("WhatsApp notifications are disabled or phone number not set");
     return false;
   }
@@ -22,14 +26,18 @@ export async function notifyViaWhatsApp(message: string): Promise<boolean> {
     }
   }
 
-  return await sendWhatsAppMessage(config.whatsapp.phoneNumber, message);
+  return await sendWhatsAppMessage(to, message);
 }
 
-export async function sendReportToWhatsApp(report: string): Promise<boolean> {
+export async function sendReportToWhatsApp(
+  report: string,
+  phoneNumber?: string,
+  settings: Config["whatsapp"] = loadConfig().whatsapp
+): Promise<boolean> {
   const MAX_MESSAGE_LENGTH = 4000;
 
   if (report.length <= MAX_MESSAGE_LENGTH) {
-    return await notifyViaWhatsApp(report);
+    return await notifyViaWhatsApp(report, phoneNumber, settings);
   }
 
   const parts = splitMessage(report, MAX_MESSAGE_LENGTH);
@@ -37,7 +45,7 @@ export async function sendReportToWhatsApp(report: string): Promise<boolean> {
 
   for (let i = 0; i < parts.length; i++) {
     const header = `Report (${i + 1}/${parts.length})\n\n`;
-    const sent = await notifyViaWhatsApp(header + parts[i]);
+    const sent = await notifyViaWhatsApp(header + parts[i], phoneNumber, settings);
     if (!sent) allSent = false;
     await sleep(1000);
   }
@@ -0,0 +1,16 @@
+const SPARK_LEVELS = "▁▂▃▄▅▆▇█";
+
+export function generateBar(percent: number, width = 20): string {
+  const filled = Math.max(0, Math.min(width, Math.round((percent / 100) * width)));
+  return "█".repeat(filled) + "░".repeat(width - filled);
+}
+
+export function generateSparkline(values: Array<number | null>, max = Math.max(0, ...values.map((v) => v ?? 0))): string {
+  return values
+    .map((value) => {
+      if (value === null) return " ";
+      const level = max > 0 ? Math.round((value / max) * (SPARK_LEVELS.length - 1)) : 0;
+      return SPARK_LEVELS[Math.max(0, Math.min(SPARK_LEVELS.length - 1, level))];
+    })
+    .join("");
+}
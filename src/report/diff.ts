@@ -0,0 +1,120 @@
+import { existsSync, readFileSync, writeFileSync, chmodSync } from "fs";
+import { join } from "path";
+import { getConfigDir, ensureConfigDir } from "../config/paths.ts";
+import type { FullReport } from "./generator.ts";
+import { serializeReport, type SerializedReport } from "./serialize.ts";
+
+export interface MetricDelta {
+  metric: string;
+  from: number;
+  to: number;
+  unit: string;
+}
+
+export interface ReportDiff {
+  since: string;
+  newSessions: string[];
+  endedSessions: string[];
+  newUsbDevices: string[];
+  newPrograms: string[];
+  newWindows: string[];
+  newListening: string[];
+  newDomains: string[];
+  metrics: MetricDelta[];
+}
+
+type ReportLike = FullReport | SerializedReport;
+
+export function getLastReportFile(): string {
+  return join(getConfigDir(), "last-report.json");
+}
+
+export function loadLastReport(): SerializedReport | null {
+  const file = getLastReportFile();
+  if (!existsSync(file)) return null;
+  try {
+    return JSON.parse(readFileSync(file, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+export function saveLastReport(report: FullReport): void {
+  ensureConfigDir();
+  const { changes, ...snapshot } = serializeReport(report);
+  const file = getLastReportFile();
+  writeFileSync(file, JSON.stringify(snapshot), { mode: 0o600 });
+  chmodSync(file, 0o600);
+}
+
+function added(previous: string[], current: string[]): string[] {
+  const known = new Set(previous);
+  return [...new Set(current)].filter((item) => !known.has(item));
+}
+
+function sessionKeys(report: ReportLike): string[] {
+  return report.sessions.map((s) => `${s.user} @ ${s.terminal} (From: ${s.host})`);
+}
+
+function usbKeys(report: ReportLike): string[] {
+  return report.activity.usbDevices.map((d) => d.name);
+}
+
+function programKeys(report: ReportLike): string[] {
+  return (report.runningPrograms ?? []).map((p) => p.name);
+}
+
+function windowKeys(report: ReportLike): string[] {
+  return (report.openWindows ?? []).map((w) => w.title);
+}
+
+function listeningKeys(report: ReportLike): string[] {
+  return (report.system.network.listening ?? []).map(
+    (l) => `${l.protocol} ${l.localAddress}:${l.localPort} (${l.process})`
+  );
+}
+
+function domainKeys(report: ReportLike): string[] {
+  if (!report.browserHistory) return [];
+  const { thorium, chrome, edge } = report.browserHistory;
+  return [...thorium, ...chrome, ...edge].flatMap((entry) => {
+    try {
+      return [new URL(entry.url).hostname];
+    } catch {
+      return [];
+    }
+  });
+}
+
+const METRICS: Array<{ metric: string; unit: string; value: (report: ReportLike) => number }> = [
+  { metric: "CPU", unit: "%", value: (r) => r.system.cpu.usage },
+  { metric: "RAM", unit: "%", value: (r) => r.system.memory.usagePercent },
+  { metric: "Disk", unit: "%", value: (r) => r.system.disk.usagePercent },
+  { metric: "Connections", unit: "", value: (r) => r.system.network.connections.length },
+  { metric: "Failed logins", unit: "", value: (r) => r.failedLogins.length },
+  { metric: "Processes", unit: "", value: (r) => r.system.processes.total },
+];
+
+export function diffReports(previous: SerializedReport, current: FullReport): ReportDiff {
+  return {
+    since: previous.generatedAt,
+    newSessions: added(sessionKeys(previous), sessionKeys(current)),
+    endedSessions: added(sessionKeys(current), sessionKeys(previous)),
+    newUsbDevices: added(usbKeys(previous), usbKeys(current)),
+    newPrograms: added(programKeys(previous), programKeys(current)),
+    newWindows: added(windowKeys(previous), windowKeys(current)),
+    newListening: added(listeningKeys(previous), listeningKeys(current)),
+    newDomains: added(domainKeys(previous), domainKeys(current)),
+    metrics: METRICS.map(({ metric, unit, value }) => ({
+      metric,
+      unit,
+      from: value(previous),
+      to: value(current),
+    })).filter((m) => Math.abs(m.to - m.from) >= (m.unit === "%" ? 0.1 : 1)),
+  };
+}
+
+export function withChanges(report: FullReport): FullReport {
+  const previous = loadLastReport();
+  return previous ? { ...report, changes: diffReports(previous, report) } : report;
+}
@@ -0,0 +1,151 @@
+import {
+  countEvents,
+  getSampleStats,
+  type EventCount,
+  type MetricStats,
+  type SampleStats,
+} from "../history/store.ts";
+
+export const DIGEST_PERIODS = ["day", "week"] as const;
+
+export type DigestPeriod = (typeof DIGEST_PERIODS)[number];
+
+export interface DigestSchedule {
+  daily: boolean;
+  weekly: boolean;
+  hour: number;
+  weekday: number;
+}
+
+export interface Digest {
+  period: DigestPeriod;
+  from: Date;
+  to: Date;
+  stats: SampleStats;
+  logins: EventCount[];
+  failedLogins: EventCount[];
+  usbDevices: string[];
+  topDomains: EventCount[];
+  topPrograms: EventCount[];
+  alerts: EventCount[];
+}
+
+const PERIOD_MS: Record<DigestPeriod, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const DEFAULT_DIGEST_SCHEDULE: DigestSchedule = {
+  daily: false,
+  weekly: false,
+  hour: 8,
+  weekday: 1,
+};
+
+export function isDigestPeriod(period: string): period is DigestPeriod {
+  return (DIGEST_PERIODS as readonly string[]).includes(period);
+}
+
+export function buildDigest(period: DigestPeriod, to = new Date()): Digest {
+  const from = new Date(to.getTime() - PERIOD_MS[period]);
+
+  return {
+    period,
+    from,
+    to,
+    stats: getSampleStats(from, to),
+    logins: countEvents("login", from, to, { byDetail: true }),
+    failedLogins: countEvents("failed_login", from, to, { byDetail: true }),
+    usbDevices: countEvents("usb", from, to).map((e) => e.subject),
+    topDomains: countEvents("visit", from, to, { limit: 10 }),
+    topPrograms: countEvents("program", from, to, { limit: 10 }),
+    alerts: countEvents("alert", from, to),
+  };
+}
+
+export function nextDigestTime(period: DigestPeriod, schedule: DigestSchedule, now = new Date()): Date {
+  const next = new Date(now);
+  next.setHours(schedule.hour, 0, 0, 0);
+
+  if (period === "week") {
+    next.setDate(next.getDate() + ((schedule.weekday - next.getDay() + 7) % 7));
+  }
+  if (next <= now) {
+    next.setDate(next.getDate() + (period === "week" ? 7 : 1));
+  }
+  return next;
+}
+
+function formatMetric(name: string, metric: MetricStats): string {
+  return `${name}: avg ${metric.avg.toFixed(1)}%, peak ${metric.peak.toFixed(1)}%`;
+}
+
+export function generateDigestText(digest: Digest): string {
+  const { stats } = digest;
+  const lines: string[] = [];
+
+  lines.push(digest.period === "day" ? "DAILY DIGEST" : "WEEKLY DIGEST");
+  lines.push(`${digest.from.toLocaleString()} - ${digest.to.toLocaleString()}`);
+  lines.push("");
+
+  if (stats.samples === 0) {
+    lines.push("No history recorded for this period yet.");
+    return lines.join("\n");
+  }
+
+  lines.push(`RESOURCES (${stats.samples} samples)`);
+  lines.push(formatMetric("CPU", stats.cpu));
+  lines.push(formatMetric("RAM", stats.ram));
+  lines.push(formatMetric("Disk", stats.disk));
+  lines.push("");
+
+  const total = (events: EventCount[]) => events.reduce((sum, e) => sum + e.count, 0);
+
+  lines.push(`LOGINS (${total(digest.logins)})`);
+  if (digest.logins.length === 0) lines.push("None");
+  for (const login of digest.logins) {
+    lines.push(`- ${login.subject} from ${login.detail || "local"}: ${login.count}`);
+  }
+  lines.push("");
+
+  if (digest.failedLogins.length > 0) {
+    lines.push(`FAILED LOGINS (${total(digest.failedLogins)})`);
+    for (const login of digest.failedLogins) {
+      lines.push(`- ${login.subject} from ${login.detail || "local"}: ${login.count}`);
+    }
+    lines.push("");
+  }
+
+  if (digest.alerts.length > 0) {
+    lines.push(`ALERTS (${total(digest.alerts)})`);
+    for (const alert of digest.alerts) {
+      lines.push(`- ${alert.subject}: ${alert.count}`);
+    }
+    lines.push("");
+  }
+
+  if (digest.usbDevices.length > 0) {
+    lines.push("USB DEVICES SEEN");
+    lines.push(...digest.usbDevices.map((name) => `- ${name}`));
+    lines.push("");
+  }
+
+  if (digest.topPrograms.length > 0) {
+    lines.push("MOST USED PROGRAMS");
+    for (const program of digest.topPrograms) {
+      const share = Math.min(100, (program.count / stats.samples) * 100);
+      lines.push(`- ${program.subject} (running in ${share.toFixed(0)}% of samples)`);
+    }
+    lines.push("");
+  }
+
+  if (digest.topDomains.length > 0) {
+    lines.push("TOP BROWSER DOMAINS");
+    for (const domain of digest.topDomains) {
+      lines.push(`- ${domain.subject}: ${domain.count} visits`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
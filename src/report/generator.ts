@@ -6,6 +6,21 @@ import type {
   RunningProgram,
 } from "../monitor/browser.ts";
 import type { OpenWindow } from "../monitor/windows.ts";
+import type { ReportDiff } from "./diff.ts";
+import type { Severity } from "../alerts/rules.ts";
+
+export const ALERT_TYPES = ["login", "suspicious", "threshold", "brute-force", "anomaly", "resolved"] as const;
+
+export type AlertType = (typeof ALERT_TYPES)[number];
+
+export const DEFAULT_ALERT_SEVERITIES: Record<AlertType, Severity> = {
+  login: "warning",
+  suspicious: "warning",
+  threshold: "warning",
+  "brute-force": "critical",
+  anomaly: "warning",
+  resolved: "info",
+};
 
 export interface FullReport {
   system: SystemStats;
@@ -16,10 +31,11 @@ export interface FullReport {
   browserHistory?: BrowserHistory;
   runningPrograms?: RunningProgram[];
   openWindows?: OpenWindow[];
+  changes?: ReportDiff;
   generatedAt: Date;
 }
 
-function formatUptime(seconds: number): string {
+export function formatUptime(seconds: number): string {
   const days = Math.floor(seconds / 86400);
   const hours = Math.floor((seconds % 86400) / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
@@ -32,118 +48,216 @@ function formatUptime(seconds: number): string {
   return parts.join(" ") || "< 1m";
 }
 
-export function generateTextReport(report: FullReport): string {
-  const { system, sessions, failedLogins, activity } = report;
-  const lines: string[] = [];
+export const REPORT_SECTIONS = [
+  "changes",
+  "system",
+  "sessions",
+  "failedLogins",
+  "suspicious",
+  "processes",
+  "network",
+  "usb",
+  "windows",
+  "programs",
+  "browser",
+] as const;
 
-  lines.push("SYSTEM MONITOR REPORT");
-  lines.push(`Date: ${report.generatedAt.toLocaleString()}`);
-  lines.push(`Host: ${system.hostname} (${system.osInfo})`);
-  lines.push(`Uptime: ${formatUptime(system.uptime)}`);
-  lines.push("");
+export type ReportSection = (typeof REPORT_SECTIONS)[number];
 
-  lines.push("SYSTEM STATS");
-  lines.push(`CPU Usage: ${system.cpu.usage.toFixed(1)}%`);
-  if (system.cpu.temperature) {
-    lines.push(`CPU Temp: ${system.cpu.temperature}°C`);
-  }
-  lines.push(`RAM Usage: ${system.memory.usagePercent.toFixed(1)}% (${system.memory.used}GB / ${system.memory.total}GB)`);
-  lines.push(`Disk Usage: ${system.disk.usagePercent.toFixed(1)}% (${system.disk.used}GB / ${system.disk.total}GB)`);
-  lines.push("");
+export interface ReportLimits {
+  failedLogins: number;
+  processes: number;
+  connections: number;
+  programs: number;
+  browserEntries: number;
+  titleLength: number;
+  urlLength: number;
+  changes: number;
+  changeLength: number;
+}
+
+export interface ReportOptions {
+  sections: ReportSection[];
+  limits: ReportLimits;
+  diffOnly: boolean;
+}
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  sections: [...REPORT_SECTIONS],
+  limits: {
+    failedLogins: 5,
+    processes: 5,
+    connections: 5,
+    programs: 15,
+    browserEntries: 10,
+    titleLength: 50,
+    urlLength: 60,
+    changes: 15,
+    changeLength: 50,
+  },
+  diffOnly: false,
+};
+
+type SectionRenderer = (report: FullReport, limits: ReportLimits) => string[];
 
-  lines.push("ACTIVE SESSIONS");
-  if (sessions.length === 0) {
-    lines.push("No active sessions");
-  } else {
-    for (const session of sessions) {
-      lines.push(`- ${session.user} @ ${session.terminal} (From: ${session.host}, Idle: ${session.idle})`);
+const sectionRenderers: Record<ReportSection, SectionRenderer> = {
+  changes: ({ changes }, limits) => {
+    if (!changes) return [];
+    const lines = [`CHANGES SINCE ${new Date(changes.since).toLocaleString()}`];
+    const lists = [
+      ["New sessions", changes.newSessions, "+"],
+      ["Ended sessions", changes.endedSessions, "-"],
+      ["New USB devices", changes.newUsbDevices, "+"],
+      ["New programs", changes.newPrograms, "+"],
+      ["New windows", changes.newWindows, "+"],
+      ["New listening ports", changes.newListening, "+"],
+      ["New browser domains", changes.newDomains, "+"],
+    ] as const;
+
+    for (const metric of changes.metrics) {
+      const delta = metric.to - metric.from;
+      const digits = metric.unit === "%" ? 1 : 0;
+      lines.push(
+        `${metric.metric}: ${metric.from.toFixed(digits)}${metric.unit} -> ${metric.to.toFixed(digits)}${metric.unit} ` +
+          `(${delta > 0 ? "+" : ""}${delta.toFixed(digits)})`
+      );
     }
-  }
-  lines.push("");
+    for (const [title, items, marker] of lists) {
+      if (items.length === 0) continue;
+      lines.push(`${title}:`);
+      lines.push(...items.slice(0, limits.changes).map((item) => `${marker} ${item.substring(0, limits.changeLength)}`));
+      if (items.length > limits.changes) {
+        lines.push(`  ... and ${items.length - limits.changes} more`);
+      }
+    }
+    if (lines.length === 1) {
+      lines.push("No changes");
+    }
+    return lines;
+  },
+
+  system: ({ system }) => {
+    const lines = ["SYSTEM STATS"];
+    lines.push(`CPU Usage: ${system.cpu.usage.toFixed(1)}%`);
+    if (system.cpu.temperature) {
+      lines.push(`CPU Temp: ${system.cpu.temperature}°C`);
+    }
+    lines.push(`RAM Usage: ${system.memory.usagePercent.toFixed(1)}% (${system.memory.used}GB / ${system.memory.total}GB)`);
+    lines.push(`Disk Usage: ${system.disk.usagePercent.toFixed(1)}% (${system.disk.used}GB / ${system.disk.total}GB)`);
+    return lines;
+  },
 
-  if (failedLogins.length > 0) {
-    lines.push("FAILED LOGIN ATTEMPTS");
+  sessions: ({ sessions }) => {
+    const lines = ["ACTIVE SESSIONS"];
+    if (sessions.length === 0) {
+      lines.push("No active sessions");
+    } else {
+      for (const session of sessions) {
+        lines.push(`- ${session.user} @ ${session.terminal} (From: ${session.host}, Idle: ${session.idle})`);
+      }
+    }
+    return lines;
+  },
+
+  failedLogins: ({ failedLogins }, limits) => {
+    if (failedLogins.length === 0) return [];
+    const lines = ["FAILED LOGIN ATTEMPTS"];
     lines.push(`${failedLogins.length} failed attempts in last 24h`);
-    for (const login of failedLogins.slice(0, 5)) {
+    for (const login of failedLogins.slice(0, limits.failedLogins)) {
       lines.push(`- User: ${login.user} from ${login.host}`);
     }
-    lines.push("");
-  }
+    return lines;
+  },
 
-  if (activity.suspiciousActivity.length > 0) {
-    lines.push("SUSPICIOUS ACTIVITY");
-    for (const item of activity.suspiciousActivity) {
-      lines.push(`! ${item}`);
-    }
-    lines.push("");
-  }
+  suspicious: ({ activity }) => {
+    if (activity.suspiciousActivity.length === 0) return [];
+    return ["SUSPICIOUS ACTIVITY", ...activity.suspiciousActivity.map((item) => `! ${item}`)];
+  },
 
-  lines.push("TOP PROCESSES (CPU)");
-  for (const proc of system.processes.topCpu) {
-    lines.push(`- ${proc.name} (PID: ${proc.pid}): CPU ${proc.cpu}%, RAM ${proc.memory}%`);
-  }
-  lines.push("");
+  processes: ({ system }, limits) => [
+    "TOP PROCESSES (CPU)",
+    ...system.processes.topCpu
+      .slice(0, limits.processes)
+      .map((proc) => `- ${proc.name} (PID: ${proc.pid}): CPU ${proc.cpu}%, RAM ${proc.memory}%`),
+  ],
 
-  lines.push("NETWORK CONNECTIONS");
-  lines.push(`Active connections: ${system.network.connections.length}`);
-  for (const conn of system.network.connections.slice(0, 5)) {
-    lines.push(`- ${conn.peerAddress}:${conn.peerPort} (${conn.process})`);
-  }
-  lines.push("");
+  network: ({ system }, limits) => [
+    "NETWORK CONNECTIONS",
+    `Active connections: ${system.network.connections.length}`,
+    ...system.network.connections
+      .slice(0, limits.connections)
+      .map((conn) => `- ${conn.peerAddress}:${conn.peerPort} (${conn.process})`),
+  ],
 
-  if (activity.usbDevices.length > 0) {
-    lines.push("USB DEVICES");
-    for (const device of activity.usbDevices) {
-      lines.push(`- ${device.name}`);
-    }
-    lines.push("");
-  }
+  usb: ({ activity }) => {
+    if (activity.usbDevices.length === 0) return [];
+    return ["USB DEVICES", ...activity.usbDevices.map((device) => `- ${device.name}`)];
+  },
 
-  if (report.openWindows && report.openWindows.length > 0) {
-    lines.push("OPEN WINDOWS");
-    for (const win of report.openWindows) {
-      lines.push(`- ${win.title}`);
-    }
-    lines.push("");
-  }
+  windows: ({ openWindows }) => {
+    if (!openWindows || openWindows.length === 0) return [];
+    return ["OPEN WINDOWS", ...openWindows.map((win) => `- ${win.title}`)];
+  },
 
-  if (report.runningPrograms && report.runningPrograms.length > 0) {
-    lines.push("RUNNING PROGRAMS");
-    for (const prog of report.runningPrograms.slice(0, 15)) {
-      lines.push(`- ${prog.name} (PID: ${prog.pid}): CPU ${prog.cpu}%, RAM ${prog.mem}%, User ${prog.user}`);
-    }
-    lines.push("");
-  }
+  programs: ({ runningPrograms }, limits) => {
+    if (!runningPrograms || runningPrograms.length === 0) return [];
+    return [
+      "RUNNING PROGRAMS",
+      ...runningPrograms
+        .slice(0, limits.programs)
+        .map((prog) => `- ${prog.name} (PID: ${prog.pid}): CPU ${prog.cpu}%, RAM ${prog.mem}%, User ${prog.user}`),
+    ];
+  },
 
-  if (report.browserHistory) {
-    const { thorium, chrome, edge } = report.browserHistory;
+  browser: ({ browserHistory }, limits) => {
+    if (!browserHistory) return [];
+    const lines: string[] = [];
+    const browsers = [
+      ["THORIUM HISTORY", browserHistory.thorium],
+      ["CHROME HISTORY", browserHistory.chrome],
+      ["EDGE HISTORY", browserHistory.edge],
+    ] as const;
 
-    if (thorium.length > 0) {
-      lines.push("THORIUM HISTORY");
-      for (const entry of thorium.slice(0, 10)) {
-        lines.push(`- ${entry.title.substring(0, 50)} (${entry.visitTime})`);
-        lines.push(`  ${entry.url.substring(0, 60)}`);
+    for (const [title, entries] of browsers) {
+      if (entries.length === 0) continue;
+      if (lines.length > 0) lines.push("");
+      lines.push(title);
+      for (const entry of entries.slice(0, limits.browserEntries)) {
+        lines.push(`- ${entry.title.substring(0, limits.titleLength)} (${entry.visitTime})`);
+        lines.push(`  ${entry.url.substring(0, limits.urlLength)}`);
       }
-      lines.push("");
     }
+    return lines;
+  },
+};
 
-    if (chrome.length > 0) {
-      lines.push("CHROME HISTORY");
-      for (const entry of chrome.slice(0, 10)) {
-        lines.push(`- ${entry.title.substring(0, 50)} (${entry.visitTime})`);
-        lines.push(`  ${entry.url.substring(0, 60)}`);
-      }
-      lines.push("");
-    }
+export function renderReportSection(
+  report: FullReport,
+  section: ReportSection,
+  limits: ReportLimits = DEFAULT_REPORT_OPTIONS.limits
+): string {
+  return sectionRenderers[section](report, limits).join("\n");
+}
 
-    if (edge.length > 0) {
-      lines.push("EDGE HISTORY");
-      for (const entry of edge.slice(0, 10)) {
-        lines.push(`- ${entry.title.substring(0, 50)} (${entry.visitTime})`);
-        lines.push(`  ${entry.url.substring(0, 60)}`);
-      }
-      lines.push("");
-    }
+export function generateTextReport(
+  report: FullReport,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+): string {
+  const { system } = report;
+  const lines: string[] = [];
+
+  lines.push("SYSTEM MONITOR REPORT");
+  lines.push(`Date: ${report.generatedAt.toLocaleString()}`);
+  lines.push(`Host: ${system.hostname} (${system.osInfo})`);
+  lines.push(`Uptime: ${formatUptime(system.uptime)}`);
+  lines.push("");
+
+  const sections = options.diffOnly && report.changes ? ["changes" as const] : options.sections;
+  for (const section of sections) {
+    const sectionLines = sectionRenderers[section](report, options.limits);
+    if (sectionLines.length === 0) continue;
+    lines.push(...sectionLines);
+    lines.push("");
   }
 
   return lines.join("\n");
@@ -179,16 +293,20 @@ export function generateQuickReport(
 }
 
 export function generateAlertMessage(
-  type: "login" | "suspicious" | "threshold",
-  details: string
+  type: AlertType,
+  details: string,
+  severity: Severity = DEFAULT_ALERT_SEVERITIES[type]
 ): string {
-  const titles = {
+  const titles: Record<AlertType, string> = {
     login: "NEW LOGIN DETECTED",
     suspicious: "SUSPICIOUS ACTIVITY ALERT",
-    threshold: "RESOURCE THRESHOLD WARNING",
+    threshold: "RESOURCE THRESHOLD ALERT",
+    "brute-force": "BRUTE-FORCE ATTEMPT DETECTED",
+    anomaly: "UNUSUAL ACTIVITY DETECTED",
+    resolved: "ALERT RESOLVED",
   };
 
-  return `${titles[type]}\n\n${details}\n\nGenerated: ${new Date().toLocaleString()}`;
+  return `[${severity.toUpperCase()}] ${titles[type]}\n\n${details}\n\nGenerated: ${new Date().toLocaleString()}`;
 }
 
 function generateProgressBar(percent: number, width: number): string {
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_REPORT_OPTIONS, type FullReport } from "./generator.ts";
+import { generateHtmlReport } from "./html.ts";
+
+function report(): FullReport {
+  return {
+    system: {
+      timestamp: new Date(2026, 9, 19, 12, 0, 0),
+      platform: "linux",
+      hostname: "box",
+      osInfo: "Linux",
+      uptime: 60,
+      cpu: { usage: 5, cores: 2, temperature: null, model: "test" },
+      memory: { usagePercent: 10, used: 1, total: 8, free: 7 },
+      disk: { usagePercent: 20, used: 2, total: 10, free: 8, mounts: [] },
+      processes: {
+        total: 3,
+        running: 1,
+        topMemory: [],
+        topCpu: [
+          { name: "proc-a", pid: 1, cpu: 3, memory: 1 },
+          { name: "proc-b", pid: 2, cpu: 2, memory: 1 },
+          { name: "proc-c", pid: 3, cpu: 1, memory: 1 },
+        ],
+      },
+      network: { interfaces: [], connections: [], listening: [] },
+    },
+    sessions: [],
+    recentLogins: [],
+    failedLogins: [],
+    activity: { activeUsers: [], suspiciousActivity: [], usbDevices: [], newProcesses: [], networkChanges: [] },
+    browserHistory: {
+      thorium: [],
+      chrome: [{ url: "https://private.example/path", title: "Private page", visitTime: "t", browser: "chrome" }],
+      edge: [],
+    },
+    changes: {
+      since: new Date(2026, 9, 19, 11, 0, 0).toISOString(),
+      newSessions: [],
+      endedSessions: [],
+      newUsbDevices: [],
+      newPrograms: ["one", "two", "three"],
+      newWindows: [],
+      newListening: [],
+      newDomains: [],
+      metrics: [{ metric: "CPU", from: 5, to: 9, unit: "%" }],
+    },
+    generatedAt: new Date(2026, 9, 19, 12, 0, 0),
+  };
+}
+
+describe("generateHtmlReport", () => {
+  test("renders every section by default", () => {
+    const html = generateHtmlReport(report());
+    for (const heading of ["Changes since", "Active Sessions", "Top Processes (CPU)", "Browser History"]) {
+      expect(html).toContain(heading);
+    }
+  });
+
+  test("leaves out dropped sections", () => {
+    const html = generateHtmlReport(report(), { ...DEFAULT_REPORT_OPTIONS, sections: ["system", "processes"] });
+    expect(html).toContain("Top Processes (CPU)");
+    expect(html).not.toContain("private.example");
+    expect(html).not.toContain("Changes since");
+  });
+
+  test("applies the report limits", () => {
+    const limits = { ...DEFAULT_REPORT_OPTIONS.limits, processes: 2, changes: 1, titleLength: 7 };
+    const html = generateHtmlReport(report(), { ...DEFAULT_REPORT_OPTIONS, limits });
+    expect(html).toContain("proc-b");
+    expect(html).not.toContain("proc-c");
+    expect(html).toContain("<li>one</li>");
+    expect(html).toContain("... and 2 more");
+    expect(html).toContain("Private<br>");
+  });
+
+  test("renders only the changes in diff-only mode", () => {
+    const html = generateHtmlReport(report(), { ...DEFAULT_REPORT_OPTIONS, diffOnly: true });
+    expect(html).toContain("Changes since");
+    expect(html).not.toContain("Top Processes (CPU)");
+    expect(html).not.toContain("private.example");
+  });
+});
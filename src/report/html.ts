@@ -0,0 +1,263 @@
+import {
+  formatUptime,
+  DEFAULT_REPORT_OPTIONS,
+  type FullReport,
+  type ReportLimits,
+  type ReportOptions,
+  type ReportSection,
+} from "./generator.ts";
+import type { ReportDiff } from "./diff.ts";
+
+const COLORS = {
+  ok: "#2e7d32",
+  warn: "#ef6c00",
+  critical: "#c62828",
+  track: "#e0e0e0",
+  text: "#212121",
+  muted: "#757575",
+};
+
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function levelColor(percent: number): string {
+  if (percent >= 90) return COLORS.critical;
+  if (percent >= 70) return COLORS.warn;
+  return COLORS.ok;
+}
+
+function clampPercent(percent: number): number {
+  return Math.max(0, Math.min(100, Number.isFinite(percent) ? percent : 0));
+}
+
+function generateGauge(label: string, percent: number, detail: string): string {
+  const value = clampPercent(percent);
+  const radius = 40;
+  const circumference = 2 * Math.PI * radius;
+  const filled = (value / 100) * circumference;
+
+  return `<td style="text-align:center;padding:8px;">
+<svg width="110" height="110" viewBox="0 0 110 110" xmlns="http://www.w3.org/2000/svg" role="img" aria-label="${escapeHtml(label)} ${value.toFixed(1)}%">
+<circle cx="55" cy="55" r="${radius}" fill="none" stroke="${COLORS.track}" stroke-width="12"/>
+<circle cx="55" cy="55" r="${radius}" fill="none" stroke="${levelColor(value)}" stroke-width="12" stroke-dasharray="${filled.toFixed(1)} ${circumference.toFixed(1)}" transform="rotate(-90 55 55)"/>
+<text x="55" y="60" text-anchor="middle" font-family="Arial,sans-serif" font-size="18" font-weight="bold" fill="${COLORS.text}">${value.toFixed(0)}%</text>
+</svg>
+<div style="font-weight:bold;">${escapeHtml(label)}</div>
+<div style="color:${COLORS.muted};font-size:12px;">${escapeHtml(detail)}</div>
+</td>`;
+}
+
+function generateBar(percent: number): string {
+  const value = clampPercent(percent);
+  return `<svg width="160" height="12" viewBox="0 0 160 12" xmlns="http://www.w3.org/2000/svg" role="img" aria-label="${value.toFixed(1)}%">
+<rect width="160" height="12" rx="3" fill="${COLORS.track}"/>
+<rect width="${(value * 1.6).toFixed(1)}" height="12" rx="3" fill="${levelColor(value)}"/>
+</svg>`;
+}
+
+function generateTable(title: string, headers: string[], rows: unknown[][], note?: string): string {
+  if (rows.length === 0) return "";
+  const head = headers
+    .map((h) => `<th style="text-align:left;padding:6px 8px;background:#f5f5f5;border-bottom:2px solid #ddd;">${escapeHtml(h)}</th>`)
+    .join("");
+  const body = rows
+    .map(
+      (row) =>
+        `<tr>${row
+          .map((cell) => `<td style="padding:6px 8px;border-bottom:1px solid #eee;vertical-align:top;">${cell}</td>`)
+          .join("")}</tr>`
+    )
+    .join("\n");
+
+  return `${title ? `<h2 style="font-size:16px;margin:24px 0 8px;">${escapeHtml(title)}</h2>` : ""}
+${note ? `<p style="margin:0 0 8px;color:${COLORS.muted};">${escapeHtml(note)}</p>` : ""}
+<table style="border-collapse:collapse;width:100%;font-size:13px;">
+<tr>${head}</tr>
+${body}
+</table>`;
+}
+
+function generateChanges(changes: ReportDiff, limits: ReportLimits): string {
+  const lists = [
+    ["New sessions", changes.newSessions],
+    ["Ended sessions", changes.endedSessions],
+    ["New USB devices", changes.newUsbDevices],
+    ["New programs", changes.newPrograms],
+    ["New windows", changes.newWindows],
+    ["New listening ports", changes.newListening],
+    ["New browser domains", changes.newDomains],
+  ] as const;
+  const parts = [`<h2 style="font-size:16px;margin:24px 0 8px;">Changes since ${escapeHtml(new Date(changes.since).toLocaleString())}</h2>`];
+
+  if (changes.metrics.length > 0) {
+    const rows = changes.metrics.map((metric) => {
+      const delta = metric.to - metric.from;
+      const digits = metric.unit === "%" ? 1 : 0;
+      return [
+        escapeHtml(metric.metric),
+        `${metric.from.toFixed(digits)}${escapeHtml(metric.unit)}`,
+        `${metric.to.toFixed(digits)}${escapeHtml(metric.unit)}`,
+        `<span style="color:${delta > 0 ? COLORS.warn : COLORS.ok};">${delta > 0 ? "+" : ""}${delta.toFixed(digits)}</span>`,
+      ];
+    });
+    parts.push(generateTable("", ["Metric", "Before", "Now", "Change"], rows));
+  }
+
+  for (const [title, items] of lists) {
+    if (items.length === 0) continue;
+    const shown = items.slice(0, limits.changes).map((item) => `<li>${escapeHtml(item.substring(0, limits.changeLength))}</li>`);
+    if (items.length > limits.changes) {
+      shown.push(`<li style="color:${COLORS.muted};">... and ${items.length - limits.changes} more</li>`);
+    }
+    parts.push(`<p style="margin:12px 0 4px;"><strong>${escapeHtml(title)}</strong></p>
+<ul style="margin:0;padding-left:20px;">${shown.join("")}</ul>`);
+  }
+
+  if (parts.length === 1) {
+    parts.push("<p>No changes</p>");
+  }
+  return parts.join("\n");
+}
+
+type HtmlSectionRenderer = (report: FullReport, limits: ReportLimits) => string;
+
+const htmlSections: Record<ReportSection, HtmlSectionRenderer> = {
+  changes: ({ changes }, limits) => (changes ? generateChanges(changes, limits) : ""),
+
+  system: ({ system }) => {
+    const cpuDetail = system.cpu.temperature ? `${system.cpu.cores} cores, ${system.cpu.temperature}°C` : `${system.cpu.cores} cores`;
+    const gauges = `<table style="margin:16px 0;"><tr>
+${generateGauge("CPU", system.cpu.usage, cpuDetail)}
+${generateGauge("RAM", system.memory.usagePercent, `${system.memory.used}GB / ${system.memory.total}GB`)}
+${generateGauge("Disk", system.disk.usagePercent, `${system.disk.used}GB / ${system.disk.total}GB`)}
+</tr></table>`;
+    const mounts = generateTable(
+      "Disk Usage by Mount",
+      ["Mount", "Usage", "%", "Used / Size"],
+      system.disk.mounts.map((m) => [
+        escapeHtml(m.mount),
+        generateBar(m.usagePercent),
+        `${m.usagePercent.toFixed(1)}%`,
+        `${m.used}GB / ${m.size}GB`,
+      ])
+    );
+    return [gauges, mounts].filter(Boolean).join("\n");
+  },
+
+  sessions: ({ sessions }) =>
+    sessions.length > 0
+      ? generateTable(
+          "Active Sessions",
+          ["User", "Terminal", "From", "Idle"],
+          sessions.map((s) => [escapeHtml(s.user), escapeHtml(s.terminal), escapeHtml(s.host), escapeHtml(s.idle)])
+        )
+      : `<h2 style="font-size:16px;margin:24px 0 8px;">Active Sessions</h2><p>No active sessions</p>`,
+
+  failedLogins: ({ failedLogins }, limits) =>
+    generateTable(
+      "Failed Login Attempts",
+      ["User", "From", "Time"],
+      failedLogins
+        .slice(0, limits.failedLogins)
+        .map((l) => [escapeHtml(l.user), escapeHtml(l.host), escapeHtml(l.loginTime?.toLocaleString() ?? "unknown")]),
+      `${failedLogins.length} failed attempts in last 24h`
+    ),
+
+  suspicious: ({ activity }) => {
+    if (activity.suspiciousActivity.length === 0) return "";
+    return `<div style="margin:16px 0;padding:12px;border-left:4px solid ${COLORS.critical};background:#ffebee;">
+<strong>Suspicious activity</strong>
+<ul style="margin:8px 0 0;padding-left:20px;">${activity.suspiciousActivity.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>
+</div>`;
+  },
+
+  processes: ({ system }, limits) =>
+    generateTable(
+      "Top Processes (CPU)",
+      ["Process", "PID", "CPU %", "RAM %"],
+      system.processes.topCpu.slice(0, limits.processes).map((p) => [escapeHtml(p.name), p.pid, p.cpu, p.memory])
+    ),
+
+  network: ({ system }, limits) =>
+    generateTable(
+      "Network Connections",
+      ["Remote", "Local Port", "Protocol", "Process"],
+      system.network.connections.slice(0, limits.connections).map((c) => [
+        escapeHtml(`${c.peerAddress}:${c.peerPort}`),
+        c.localPort,
+        escapeHtml(c.protocol),
+        escapeHtml(c.process),
+      ]),
+      `Active connections: ${system.network.connections.length}`
+    ),
+
+  usb: ({ activity }) =>
+    generateTable(
+      "USB Devices",
+      ["Device", "ID"],
+      activity.usbDevices.map((d) => [escapeHtml(d.name), escapeHtml(d.id)])
+    ),
+
+  windows: ({ openWindows }) =>
+    openWindows ? generateTable("Open Windows", ["Title"], openWindows.map((w) => [escapeHtml(w.title)])) : "",
+
+  programs: ({ runningPrograms }, limits) =>
+    runningPrograms
+      ? generateTable(
+          "Running Programs",
+          ["Program", "PID", "CPU %", "RAM %", "User"],
+          runningPrograms
+            .slice(0, limits.programs)
+            .map((p) => [escapeHtml(p.name), p.pid, p.cpu, p.mem, escapeHtml(p.user)])
+        )
+      : "",
+
+  browser: ({ browserHistory }, limits) => {
+    if (!browserHistory) return "";
+    const entries = [browserHistory.thorium, browserHistory.chrome, browserHistory.edge].flatMap((list) =>
+      list.slice(0, limits.browserEntries)
+    );
+    return generateTable(
+      "Browser History",
+      ["Browser", "Page", "Visited"],
+      entries.map((e) => [
+        escapeHtml(e.browser),
+        `${escapeHtml((e.title || e.url).substring(0, limits.titleLength))}<br><a href="${escapeHtml(e.url)}" style="color:${COLORS.muted};font-size:12px;">${escapeHtml(e.url.substring(0, limits.urlLength))}</a>`,
+        escapeHtml(e.visitTime),
+      ])
+    );
+  },
+};
+
+export function generateHtmlReport(report: FullReport, options: ReportOptions = DEFAULT_REPORT_OPTIONS): string {
+  const { system } = report;
+  const sections = [
+    `<h1 style="font-size:20px;margin:0 0 4px;">System Monitor Report</h1>
+<p style="margin:0;color:${COLORS.muted};">${escapeHtml(system.hostname)} (${escapeHtml(system.osInfo)}) &middot; ${escapeHtml(report.generatedAt.toLocaleString())} &middot; up ${escapeHtml(formatUptime(system.uptime))}</p>`,
+  ];
+
+  const names = options.diffOnly && report.changes ? ["changes" as const] : options.sections;
+  for (const name of names) {
+    sections.push(htmlSections[name](report, options.limits));
+  }
+
+  return wrapHtml(system.hostname, sections);
+}
+
+function wrapHtml(hostname: string, sections: string[]): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>System Monitor Report - ${escapeHtml(hostname)}</title></head>
+<body style="margin:0;padding:16px;background:#fafafa;">
+<div style="max-width:760px;margin:0 auto;padding:24px;background:#fff;font-family:Arial,sans-serif;color:${COLORS.text};">
+${sections.filter(Boolean).join("\n")}
+</div>
+</body>
+</html>`;
+}
@@ -0,0 +1,136 @@
+import { formatUptime, type FullReport } from "./generator.ts";
+
+function cell(value: unknown): string {
+  return String(value).replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function table(headers: string[], rows: unknown[][]): string[] {
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+  ];
+}
+
+export function generateMarkdownReport(report: FullReport): string {
+  const { system, sessions, failedLogins, activity } = report;
+  const lines: string[] = [];
+
+  lines.push("# System Monitor Report");
+  lines.push("");
+  lines.push(`- **Date:** ${report.generatedAt.toLocaleString()}`);
+  lines.push(`- **Host:** ${system.hostname} (${system.osInfo})`);
+  lines.push(`- **Uptime:** ${formatUptime(system.uptime)}`);
+  lines.push("");
+
+  lines.push("## System Stats");
+  lines.push("");
+  lines.push(
+    ...table(
+      ["Metric", "Usage", "Detail"],
+      [
+        ["CPU", `${system.cpu.usage.toFixed(1)}%`, system.cpu.temperature ? `${system.cpu.temperature}°C` : `${system.cpu.cores} cores`],
+        ["RAM", `${system.memory.usagePercent.toFixed(1)}%`, `${system.memory.used}GB / ${system.memory.total}GB`],
+        ["Disk", `${system.disk.usagePercent.toFixed(1)}%`, `${system.disk.used}GB / ${system.disk.total}GB`],
+        ...system.disk.mounts.map((m) => [`Disk ${m.mount}`, `${m.usagePercent.toFixed(1)}%`, `${m.used}GB / ${m.size}GB`]),
+      ]
+    )
+  );
+  lines.push("");
+
+  lines.push("## Active Sessions");
+  lines.push("");
+  if (sessions.length === 0) {
+    lines.push("No active sessions");
+  } else {
+    lines.push(...table(["User", "Terminal", "From", "Idle"], sessions.map((s) => [s.user, s.terminal, s.host, s.idle])));
+  }
+  lines.push("");
+
+  if (failedLogins.length > 0) {
+    lines.push("## Failed Login Attempts");
+    lines.push("");
+    lines.push(`${failedLogins.length} failed attempts in last 24h`);
+    lines.push("");
+    lines.push(...table(["User", "From"], failedLogins.slice(0, 5).map((l) => [l.user, l.host])));
+    lines.push("");
+  }
+
+  if (activity.suspiciousActivity.length > 0) {
+    lines.push("## Suspicious Activity");
+    lines.push("");
+    for (const item of activity.suspiciousActivity) {
+      lines.push(`- **${item}**`);
+    }
+    lines.push("");
+  }
+
+  lines.push("## Top Processes (CPU)");
+  lines.push("");
+  lines.push(...table(["Process", "PID", "CPU %", "RAM %"], system.processes.topCpu.map((p) => [p.name, p.pid, p.cpu, p.memory])));
+  lines.push("");
+
+  lines.push("## Network Connections");
+  lines.push("");
+  lines.push(`Active connections: ${system.network.connections.length}`);
+  lines.push("");
+  if (system.network.connections.length > 0) {
+    lines.push(
+      ...table(
+        ["Remote", "Process"],
+        system.network.connections.slice(0, 5).map((c) => [`${c.peerAddress}:${c.peerPort}`, c.process])
+      )
+    );
+    lines.push("");
+  }
+
+  if (activity.usbDevices.length > 0) {
+    lines.push("## USB Devices");
+    lines.push("");
+    for (const device of activity.usbDevices) {
+      lines.push(`- ${device.name}`);
+    }
+    lines.push("");
+  }
+
+  if (report.openWindows && report.openWindows.length > 0) {
+    lines.push("## Open Windows");
+    lines.push("");
+    for (const win of report.openWindows) {
+      lines.push(`- ${win.title}`);
+    }
+    lines.push("");
+  }
+
+  if (report.runningPrograms && report.runningPrograms.length > 0) {
+    lines.push("## Running Programs");
+    lines.push("");
+    lines.push(
+      ...table(
+        ["Program", "PID", "CPU %", "RAM %", "User"],
+        report.runningPrograms.slice(0, 15).map((p) => [p.name, p.pid, p.cpu, p.mem, p.user])
+      )
+    );
+    lines.push("");
+  }
+
+  if (report.browserHistory) {
+    const browsers = [
+      ["Thorium", report.browserHistory.thorium],
+      ["Chrome", report.browserHistory.chrome],
+      ["Edge", report.browserHistory.edge],
+    ] as const;
+
+    for (const [name, entries] of browsers) {
+      if (entries.length === 0) continue;
+      lines.push(`## ${name} History`);
+      lines.push("");
+      for (const entry of entries.slice(0, 10)) {
+        lines.push(`- [${cell(entry.title || entry.url).replace(/[[\]]/g, "")}](${entry.url}) (${entry.visitTime})`);
+      }
+      lines.push("");
+    }
+  }
+
+  return lines.join("\n");
+}
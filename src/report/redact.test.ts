@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import type { FullReport } from "./generator.ts";
+import { DEFAULT_PRIVACY_RULES, previewRedaction, redactReport, type PrivacyRules } from "./redact.ts";
+
+function report(): FullReport {
+  return {
+    system: {
+      timestamp: new Date(2026, 9, 19, 12, 0, 0),
+      platform: "linux",
+      hostname: "box",
+      osInfo: "Linux",
+      uptime: 60,
+      cpu: { usage: 5, cores: 2, temperature: null, model: "test" },
+      memory: { usagePercent: 10, used: 1, total: 8, free: 7 },
+      disk: { usagePercent: 20, used: 2, total: 10, free: 8, mounts: [] },
+      processes: { total: 0, running: 0, topCpu: [], topMemory: [] },
+      network: { interfaces: [], connections: [], listening: [] },
+    },
+    sessions: [],
+    recentLogins: [],
+    failedLogins: [],
+    activity: { activeUsers: [], suspiciousActivity: [], usbDevices: [], newProcesses: [], networkChanges: [] },
+    browserHistory: {
+      thorium: [],
+      chrome: [
+        { url: "https://mybank.com/login?session=abc#top", title: "MyBank - Sign in", visitTime: "t", browser: "chrome" },
+        { url: "https://online.mybank.com/accounts", title: "Accounts", visitTime: "t", browser: "chrome" },
+        { url: "https://mybank.community/forum?page=2", title: "Forum", visitTime: "t", browser: "chrome" },
+        { url: "https://mybank.com.evil.net/phish", title: "Phish", visitTime: "t", browser: "chrome" },
+      ],
+      edge: [],
+    },
+    openWindows: [{ title: "Statement - online.mybank.com - Firefox" }],
+    runningPrograms: [
+      { pid: 2, name: "curl", cpu: 0, mem: 0, user: "me", command: "curl --token=s3cret https://example.org", startTime: "t" },
+    ],
+    generatedAt: new Date(2026, 9, 19, 12, 0, 0),
+  };
+}
+
+const rules = (overrides: Partial<PrivacyRules>): PrivacyRules => ({ ...DEFAULT_PRIVACY_RULES, ...overrides });
+
+describe("redactReport", () => {
+  test("masks listed domains and their subdomains but not lookalikes", () => {
+    const redacted = redactReport(report(), rules({ maskDomains: ["mybank.com"] }));
+    expect(redacted.browserHistory!.chrome.map((entry) => entry.url)).toEqual([
+      "[redacted]",
+      "[redacted]",
+      "https://mybank.community/forum",
+      "https://mybank.com.evil.net/phish",
+    ]);
+    expect(redacted.browserHistory!.chrome.map((entry) => entry.title)).toEqual([
+      "[redacted]",
+      "[redacted]",
+      "Forum",
+      "Phish",
+    ]);
+    expect(redacted.openWindows![0]!.title).toBe("[redacted]");
+  });
+
+  test("hashes masked values consistently in hash mode", () => {
+    const redacted = redactReport(report(), rules({ maskDomains: ["*.mybank.com"], maskMode: "hash" }));
+    const [first, second] = redacted.browserHistory!.chrome;
+    expect(first!.url).toMatch(/^#[0-9a-f]{8}$/);
+    const again = redactReport(report(), rules({ maskDomains: ["mybank.com"], maskMode: "hash" }));
+    expect(again.browserHistory!.chrome[0]!.url).toBe(first!.url);
+    expect(second!.url).not.toBe(first!.url);
+  });
+
+  test("keeps query strings when stripping is off", () => {
+    const redacted = redactReport(report(), rules({ stripQueryStrings: false }));
+    expect(redacted.browserHistory!.chrome[0]!.url).toBe("https://mybank.com/login?session=abc#top");
+  });
+
+  test("applies replacement patterns to urls, titles and commands", () => {
+    const replacements = [
+      { pattern: "--token=\\S+", replacement: "--token=***" },
+      { pattern: "sign in", replacement: "login" },
+    ];
+    const redacted = redactReport(report(), rules({ replacements }));
+    expect(redacted.runningPrograms![0]!.command).toBe("curl --token=*** https://example.org");
+    expect(redacted.browserHistory!.chrome[0]!.title).toBe("MyBank - login");
+  });
+
+  test("leaves the report untouched with the default rules apart from query strings", () => {
+    const original = report();
+    const redacted = redactReport(original, DEFAULT_PRIVACY_RULES);
+    expect(redacted.openWindows).toEqual(original.openWindows);
+    expect(redacted.runningPrograms).toEqual(original.runningPrograms);
+    expect(original.browserHistory!.chrome[0]!.url).toBe("https://mybank.com/login?session=abc#top");
+  });
+});
+
+describe("previewRedaction", () => {
+  test("lists every changed field with its before and after value", () => {
+    const changes = previewRedaction(report(), rules({ maskDomains: ["mybank.com"] }));
+    expect(changes.map((change) => change.field)).toEqual([
+      "chrome[0].url",
+      "chrome[0].title",
+      "chrome[1].url",
+      "chrome[1].title",
+      "chrome[2].url",
+      "openWindows[0].title",
+    ]);
+    expect(changes[4]).toEqual({
+      field: "chrome[2].url",
+      before: "https://mybank.community/forum?page=2",
+      after: "https://mybank.community/forum",
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { createHash } from "crypto";
+import type { BrowserHistoryEntry } from "../monitor/browser.ts";
+import type { FullReport } from "./generator.ts";
+
+export const MASK_MODES = ["redact", "hash"] as const;
+
+export type MaskMode = (typeof MASK_MODES)[number];
+
+export interface ReplacementRule {
+  pattern: string;
+  replacement: string;
+}
+
+export interface PrivacyRules {
+  stripQueryStrings: boolean;
+  maskDomains: string[];
+  maskMode: MaskMode;
+  replacements: ReplacementRule[];
+}
+
+export interface RedactionChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export const DEFAULT_PRIVACY_RULES: PrivacyRules = {
+  stripQueryStrings: true,
+  maskDomains: [],
+  maskMode: "redact",
+  replacements: [],
+};
+
+const HOST_TOKEN = /(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z][a-z0-9-]*[a-z0-9]/gi;
+
+function createRedactor(rules: PrivacyRules) {
+  const domains = rules.maskDomains.map((d) => d.toLowerCase().replace(/^\*?\./, ""));
+  const replacements = rules.replacements.map((r) => ({
+    regex: new RegExp(r.pattern, "gi"),
+    replacement: r.replacement,
+  }));
+
+  const mask = (value: string): string =>
+    rules.maskMode === "hash"
+      ? `#${createHash("sha256").update(value).digest("hex").slice(0, 8)}`
+      : "[redacted]";
+
+  const isMaskedHost = (hostname: string): boolean => {
+    const host = hostname.toLowerCase();
+    return domains.some((d) => host === d || host.endsWith(`.${d}`));
+  };
+
+  const replace = (value: string): string =>
+    replacements.reduce((text, r) => text.replace(r.regex, r.replacement), value);
+
+  const text = (value: string): string => {
+    if ((value.match(HOST_TOKEN) ?? []).some(isMaskedHost)) return mask(value);
+    return replace(value);
+  };
+
+  const url = (value: string): { url: string; masked: boolean } => {
+    let parsed: URL;
+    try {
+      parsed = new URL(value);
+    } catch {
+      return { url: replace(value), masked: false };
+    }
+    if (isMaskedHost(parsed.hostname)) {
+      return { url: mask(parsed.hostname), masked: true };
+    }
+    if (rules.stripQueryStrings) {
+      parsed.search = "";
+      parsed.hash = "";
+    }
+    return { url: replace(parsed.toString()), masked: false };
+  };
+
+  return { mask, text, url };
+}
+
+export function redactReport(
+  report: FullReport,
+  rules: PrivacyRules,
+  changes?: RedactionChange[]
+): FullReport {
+  const redactor = createRedactor(rules);
+  const track = (field: string, before: string, after: string): string => {
+    if (changes && before !== after) changes.push({ field, before, after });
+    return after;
+  };
+
+  const redactEntries = (entries: BrowserHistoryEntry[], browser: string) =>
+    entries.map((entry, i) => {
+      const { url, masked } = redactor.url(entry.url);
+      return {
+        ...entry,
+        url: track(`${browser}[${i}].url`, entry.url, url),
+        title: track(
+          `${browser}[${i}].title`,
+          entry.title,
+          masked && entry.title ? redactor.mask(entry.title) : redactor.text(entry.title)
+        ),
+      };
+    });
+
+  return {
+    ...report,
+    browserHistory: report.browserHistory && {
+      thorium: redactEntries(report.browserHistory.thorium, "thorium"),
+      chrome: redactEntries(report.browserHistory.chrome, "chrome"),
+      edge: redactEntries(report.browserHistory.edge, "edge"),
+    },
+    openWindows: report.openWindows?.map((win, i) => ({
+      ...win,
+      title: track(`openWindows[${i}].title`, win.title, redactor.text(win.title)),
+    })),
+    runningPrograms: report.runningPrograms?.map((prog, i) => ({
+      ...prog,
+      command: track(`runningPrograms[${i}].command`, prog.command, redactor.text(prog.command)),
+    })),
+  };
+}
+
+export function previewRedaction(report: FullReport, rules: PrivacyRules): RedactionChange[] {
+  const changes: RedactionChange[] = [];
+  redactReport(report, rules, changes);
+  return changes;
+}
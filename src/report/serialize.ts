@@ -0,0 +1,39 @@
+import { generateTextReport, type FullReport } from "./generator.ts";
+import { generateMarkdownReport } from "./markdown.ts";
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export const REPORT_FORMATS = ["text", "json", "ndjson", "markdown"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+type Serialized<T> = T extends Date
+  ? string
+  : T extends Array<infer U>
+    ? Serialized<U>[]
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
+
+export type SerializedReport = { schemaVersion: number } & Serialized<FullReport>;
+
+export function isReportFormat(format: string): format is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(format);
+}
+
+export function serializeReport(report: FullReport): SerializedReport {
+  return JSON.parse(JSON.stringify({ schemaVersion: REPORT_SCHEMA_VERSION, ...report }));
+}
+
+export function formatReport(report: FullReport, format: ReportFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(serializeReport(report), null, 2);
+    case "ndjson":
+      return JSON.stringify(serializeReport(report));
+    case "markdown":
+      return generateMarkdownReport(report);
+    case "text":
+      return generateTextReport(report);
+  }
+}
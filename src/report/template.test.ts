@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_REPORT_OPTIONS, type FullReport } from "./generator.ts";
+import { renderTemplate, TemplateError } from "./template.ts";
+
+function report(): FullReport {
+  return {
+    system: {
+      timestamp: new Date(2026, 9, 19, 12, 0, 0),
+      platform: "linux",
+      hostname: "box",
+      osInfo: "Linux",
+      uptime: 3 * 3600 + 5 * 60,
+      cpu: { usage: 12.345, cores: 4, temperature: null, model: "test" },
+      memory: { usagePercent: 40, used: 3.2, total: 8, free: 4.8 },
+      disk: { usagePercent: 50, used: 50, total: 100, free: 50, mounts: [] },
+      processes: {
+        total: 3,
+        running: 1,
+        topMemory: [],
+        topCpu: [
+          { name: "bun", pid: 10, cpu: 30, memory: 2 },
+          { name: "node", pid: 11, cpu: 20, memory: 1 },
+          { name: "sshd", pid: 12, cpu: 1, memory: 0.1 },
+        ],
+      },
+      network: { interfaces: [], connections: [], listening: [] },
+    },
+    sessions: [],
+    recentLogins: [],
+    failedLogins: [],
+    activity: { activeUsers: [], suspiciousActivity: [], usbDevices: [], newProcesses: [], networkChanges: [] },
+    browserHistory: {
+      thorium: [],
+      chrome: [{ url: "https://example.com/page", title: "Example page", visitTime: "2026-10-19 10:00", browser: "chrome" }],
+      edge: [],
+    },
+    generatedAt: new Date(2026, 9, 19, 12, 0, 0),
+  };
+}
+
+const render = (source: string) => renderTemplate(source, report(), DEFAULT_REPORT_OPTIONS);
+
+describe("renderTemplate", () => {
+  test("substitutes values and applies filters", () => {
+    expect(render("{{system.hostname | upper}} up {{uptime}} - CPU {{system.cpu.usage | fixed 1}}%")).toBe(
+      "BOX up 3h 5m - CPU 12.3%"
+    );
+    expect(render("{{system.osInfo | truncate 3}}|{{missing.value}}|{{system.processes.topCpu | count}}")).toBe(
+      "Lin||3"
+    );
+  });
+
+  test("loops with limit, @number and outer scope lookups", () => {
+    const source = "{{#each system.processes.topCpu limit=2}}\n{{@number}}. {{name}} on {{system.hostname}}\n{{/each}}\n";
+    expect(render(source)).toBe("1. bun on box\n2. node on box\n");
+  });
+
+  test("renders if/else and unless blocks", () => {
+    expect(render("{{#if failedLogins}}some{{else}}none{{/if}}")).toBe("none");
+    expect(render("{{#unless failedLogins}}clean{{/unless}}")).toBe("clean");
+    expect(render("{{#if system.processes.topCpu}}busy{{/if}}")).toBe("busy");
+  });
+
+  test("embeds built-in sections with the configured limits", () => {
+    const limits = { ...DEFAULT_REPORT_OPTIONS.limits, titleLength: 7 };
+    expect(renderTemplate("{{section browser}}", report(), { ...DEFAULT_REPORT_OPTIONS, limits })).toContain(
+      "- Example (2026-10-19 10:00)"
+    );
+  });
+
+  test("prints unknown for missing login times", () => {
+    const withLogins: FullReport = {
+      ...report(),
+      recentLogins: [
+        { user: "alice", terminal: "pts/0", host: "10.0.0.5", loginTime: null, type: "login" },
+        { user: "bob", terminal: "pts/1", host: "local", loginTime: new Date(2026, 9, 19, 9, 30, 0), type: "login" },
+      ],
+    };
+    const source = "{{#each recentLogins}}{{user}} {{loginTime | date}}\n{{/each}}";
+    expect(renderTemplate(source, withLogins, DEFAULT_REPORT_OPTIONS)).toBe(
+      `alice unknown\nbob ${new Date(2026, 9, 19, 9, 30, 0).toLocaleString()}\n`
+    );
+  });
+
+  test("rejects malformed templates", () => {
+    expect(() => render("{{#each system.processes.topCpu}}x")).toThrow(TemplateError);
+    expect(() => render("{{#if a}}x{{/each}}")).toThrow("Unexpected {{/each}}");
+    expect(() => render("{{else}}")).toThrow("{{else}} outside of {{#if}}");
+    expect(() => render("{{section nope}}")).toThrow('Unknown section "nope"');
+    expect(() => render("{{system.hostname | shout}}")).toThrow('Unknown filter "shout"');
+  });
+
+  test("rejects non-numeric limits and filter arguments", () => {
+    expect(() => render("{{#each system.processes.topCpu limit=three}}{{name}}{{/each}}")).toThrow(
+      'limit in {{#each system.processes.topCpu limit=three}} must be a whole number, got "three"'
+    );
+    expect(() => render("{{system.hostname | truncate x}}")).toThrow(TemplateError);
+  });
+});
@@ -0,0 +1,254 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { getConfigDir } from "../config/settings.ts";
+import {
+  generateTextReport,
+  renderReportSection,
+  formatUptime,
+  REPORT_SECTIONS,
+  type FullReport,
+  type ReportOptions,
+  type ReportSection,
+} from "./generator.ts";
+import { serializeReport } from "./serialize.ts";
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "value"; expression: string }
+  | { type: "section"; name: ReportSection }
+  | { type: "each"; path: string; limit?: number; children: TemplateNode[] }
+  | { type: "if"; path: string; negate: boolean; children: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: "each" } | { type: "if" }>;
+
+interface Scope {
+  value: unknown;
+  index?: number;
+}
+
+const TEMPLATE_EXTENSION = ".tmpl";
+const BLOCK_LINE = /^[ \t]*(\{\{\s*(?:[#/](?:each|if|unless)\b[^}]*|else)\s*\}\})[ \t]*\r?\n/gm;
+
+export function getTemplatesDir(): string {
+  return join(getConfigDir(), "templates");
+}
+
+export function listTemplates(): string[] {
+  const dir = getTemplatesDir();
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((file) => file.endsWith(TEMPLATE_EXTENSION))
+    .map((file) => file.slice(0, -TEMPLATE_EXTENSION.length))
+    .sort();
+}
+
+export function loadTemplate(name: string): string {
+  const file = join(getTemplatesDir(), `${name}${TEMPLATE_EXTENSION}`);
+  if (!/^[\w-]+$/.test(name) || !existsSync(file)) {
+    const available = listTemplates();
+    throw new TemplateError(
+      `Template "${name}" not found in ${getTemplatesDir()}` +
+        (available.length > 0 ? ` (available: ${available.join(", ")})` : "")
+    );
+  }
+  return readFileSync(file, "utf-8");
+}
+
+function parseCount(value: string, what: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new TemplateError(`${what} must be a whole number, got "${value}"`);
+  }
+  return Number(value);
+}
+
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; parent: TemplateNode[] }> = [];
+  let current = root;
+  const prepared = source.replace(BLOCK_LINE, "$1");
+  let position = 0;
+
+  for (const match of prepared.matchAll(/\{\{\s*(.*?)\s*\}\}/g)) {
+    const text = prepared.slice(position, match.index);
+    if (text) current.push({ type: "text", value: text });
+    position = match.index + match[0].length;
+
+    const tag = match[1] ?? "";
+    const [keyword = "", ...args] = tag.split(/\s+/);
+
+    if (keyword === "#each") {
+      const limitArg = args.find((arg) => arg.startsWith("limit="));
+      const node: BlockNode = {
+        type: "each",
+        path: args[0] ?? "",
+        limit: limitArg ? parseCount(limitArg.slice(6), `limit in {{${tag}}}`) : undefined,
+        children: [],
+      };
+      current.push(node);
+      stack.push({ node, parent: current });
+      current = node.children;
+    } else if (keyword === "#if" || keyword === "#unless") {
+      const node: BlockNode = {
+        type: "if",
+        path: args[0] ?? "",
+        negate: keyword === "#unless",
+        children: [],
+        otherwise: [],
+      };
+      current.push(node);
+      stack.push({ node, parent: current });
+      current = node.children;
+    } else if (keyword === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.type !== "if") {
+        throw new TemplateError("{{else}} outside of {{#if}}");
+      }
+      current = top.node.otherwise;
+    } else if (keyword === "/each" || keyword === "/if" || keyword === "/unless") {
+      const top = stack.pop();
+      const expected = keyword === "/each" ? "each" : "if";
+      if (!top || top.node.type !== expected) {
+        throw new TemplateError(`Unexpected {{${keyword}}}`);
+      }
+      current = top.parent;
+    } else if (keyword === "section") {
+      const name = args[0] as ReportSection;
+      if (!REPORT_SECTIONS.includes(name)) {
+        throw new TemplateError(`Unknown section "${args[0]}" (use ${REPORT_SECTIONS.join(", ")})`);
+      }
+      current.push({ type: "section", name });
+    } else {
+      current.push({ type: "value", expression: tag });
+    }
+  }
+
+  const rest = prepared.slice(position);
+  if (rest) current.push({ type: "text", value: rest });
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(`Missing {{/${unclosed.node.type}}} for "${unclosed.node.path}"`);
+  }
+  return root;
+}
+
+function lookup(scopes: Scope[], path: string): unknown {
+  const inner = scopes[0];
+  if (path === "." || path === "this") return inner?.value;
+  if (path === "@index") return inner?.index;
+  if (path === "@number") return inner?.index === undefined ? undefined : inner.index + 1;
+
+  const segments = path.replace(/^this\./, "").split(".");
+  for (const scope of scopes) {
+    let value: unknown = scope.value;
+    for (const segment of segments) {
+      value = value !== null && typeof value === "object"
+        ? (value as Record<string, unknown>)[segment]
+        : undefined;
+    }
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function applyFilter(value: unknown, filter: string): unknown {
+  const [name = "", arg] = filter.trim().split(/\s+/);
+  switch (name) {
+    case "truncate":
+      return String(value ?? "").substring(0, parseCount(arg ?? "50", "truncate length"));
+    case "fixed":
+      return typeof value === "number" ? value.toFixed(parseCount(arg ?? "1", "fixed digits")) : value;
+    case "upper":
+      return String(value ?? "").toUpperCase();
+    case "lower":
+      return String(value ?? "").toLowerCase();
+    case "count":
+      return Array.isArray(value) ? value.length : 0;
+    case "domain":
+      try {
+        return new URL(String(value)).hostname;
+      } catch {
+        return value;
+      }
+    case "date": {
+      const date = value ? new Date(String(value)) : null;
+      return date && !Number.isNaN(date.getTime()) ? date.toLocaleString() : "unknown";
+    }
+    case "uptime":
+      return typeof value === "number" ? formatUptime(value) : value;
+    default:
+      throw new TemplateError(`Unknown filter "${name}"`);
+  }
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(stringify).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scopes: Scope[],
+  report: FullReport,
+  options: ReportOptions
+): string {
+  let output = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+      case "value": {
+        const [path = "", ...filters] = node.expression.split("|");
+        output += stringify(filters.reduce(applyFilter, lookup(scopes, path.trim())));
+        break;
+      }
+      case "section":
+        output += renderReportSection(report, node.name, options.limits);
+        break;
+      case "each": {
+        const list = lookup(scopes, node.path);
+        if (!Array.isArray(list)) break;
+        list.slice(0, node.limit).forEach((item, index) => {
+          output += renderNodes(node.children, [{ value: item, index }, ...scopes], report, options);
+        });
+        break;
+      }
+      case "if": {
+        const matched = isTruthy(lookup(scopes, node.path)) !== node.negate;
+        output += renderNodes(matched ? node.children : node.otherwise, scopes, report, options);
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+export function renderTemplate(source: string, report: FullReport, options: ReportOptions): string {
+  const context = {
+    ...serializeReport(report),
+    date: report.generatedAt.toLocaleString(),
+    uptime: formatUptime(report.system.uptime),
+  };
+  return renderNodes(parseTemplate(source), [{ value: context }], report, options);
+}
+
+export function renderReport(report: FullReport, options: ReportOptions, template?: string): string {
+  if (!template) {
+    return generateTextReport(report, options);
+  }
+  return renderTemplate(loadTemplate(template), report, options);
+}
@@ -0,0 +1,15 @@
+const UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i;
+
+export function parseDuration(input: string): number | null {
+  const match = input.trim().match(DURATION_PATTERN);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]!) * UNITS[match[2]!.toLowerCase()]!);
+}